@@ -0,0 +1,150 @@
+import * as vscode from "vscode";
+import { State } from "vscode-languageclient/node";
+import type { LanguageClientManager } from "./languageClientManager";
+import type { WorkspaceTracker } from "./project";
+import {
+  type ServerCommandName,
+  ServerNotReadyError,
+  executeServerCommand,
+} from "./serverCommands";
+import { onDidDiscoverTests } from "./testController";
+
+// Public API for other extensions. Obtain it with
+// `vscode.extensions.getExtension("JakeBecker.elixir-ls").exports.getApi(1)`.
+// Breaking changes require a new version, older versions keep being served.
+export const latestApiVersion = 1;
+
+export interface ServerReadinessEvent {
+  // workspace folder or nested Mix project served, undefined for the default server
+  projectUri: vscode.Uri | undefined;
+  ready: boolean;
+}
+
+export interface DiscoveredTest {
+  id: string;
+  label: string;
+  // test, describe, doctest etc. as reported by the server
+  description: string | undefined;
+  uri: vscode.Uri | undefined;
+  range: vscode.Range | undefined;
+  tags: string[];
+  children: DiscoveredTest[];
+}
+
+export interface ElixirLSApiV1 {
+  readonly version: 1;
+  // Executes a server command, e.g. `expandMacro` or `getExUnitTestsInFile`,
+  // on the language server handling the uri. Rejects with an error named
+  // ServerNotReadyError, ServerCommandNotSupportedError, ServerCommandTimeoutError
+  // or ServerCommandCancelledError when the command cannot be executed, e.g.
+  // ServerNotReadyError when no document of the project was opened yet.
+  executeServerCommand<T = unknown>(
+    uri: vscode.Uri,
+    name: string,
+    args?: unknown[],
+    token?: vscode.CancellationToken,
+  ): Promise<T>;
+  isServerReady(uri: vscode.Uri): boolean;
+  // Resolves when the language server handling the uri is started. Servers are
+  // started when a document of their project is opened, until then it waits. A
+  // server suspended due to inactivity is started again.
+  whenServerReady(uri: vscode.Uri): Promise<void>;
+  readonly onDidChangeServerReadiness: vscode.Event<ServerReadinessEvent>;
+  getProjectDir(uri: vscode.Uri): string | undefined;
+  // Snapshot of tests discovered so far, one root per workspace folder or project
+  getDiscoveredTests(): DiscoveredTest[];
+  readonly onDidDiscoverTests: vscode.Event<vscode.Uri>;
+}
+
+function toDiscoveredTest(item: vscode.TestItem): DiscoveredTest {
+  const children: DiscoveredTest[] = [];
+  // biome-ignore lint/complexity/noForEach: TestItemCollection is iterated with forEach
+  item.children.forEach((child) => {
+    children.push(toDiscoveredTest(child));
+  });
+  return {
+    id: item.id,
+    label: item.label,
+    description: item.description,
+    uri: item.uri,
+    range: item.range,
+    tags: item.tags.map((tag) => tag.id),
+    children,
+  };
+}
+
+export function createApiV1(
+  context: vscode.ExtensionContext,
+  languageClientManager: LanguageClientManager,
+  workspaceTracker: WorkspaceTracker,
+  testController: vscode.TestController,
+): ElixirLSApiV1 {
+  const onDidChangeServerReadiness =
+    new vscode.EventEmitter<ServerReadinessEvent>();
+  context.subscriptions.push(
+    onDidChangeServerReadiness,
+    languageClientManager.onDidChangeClientState(({ key, state }) => {
+      if (state === State.Starting) {
+        return;
+      }
+      onDidChangeServerReadiness.fire({
+        projectUri: key ? vscode.Uri.parse(key) : undefined,
+        ready: state === State.Running,
+      });
+    }),
+  );
+
+  return {
+    version: 1,
+    executeServerCommand: <T>(
+      uri: vscode.Uri,
+      name: string,
+      args: unknown[] = [],
+      token?: vscode.CancellationToken,
+    ): Promise<T> => {
+      const clientPromise = languageClientManager.resumeClientByUri(uri);
+      if (!clientPromise) {
+        return Promise.reject(new ServerNotReadyError(name, undefined));
+      }
+      return executeServerCommand<T>(
+        clientPromise,
+        name as ServerCommandName,
+        args,
+        { token },
+      );
+    },
+    isServerReady: (uri) => {
+      try {
+        return (
+          languageClientManager.getClientByUri(uri).state === State.Running
+        );
+      } catch {
+        return false;
+      }
+    },
+    whenServerReady: async (uri) => {
+      let clientPromise = languageClientManager.resumeClientByUri(uri);
+      while (!clientPromise) {
+        await new Promise<void>((resolve) => {
+          const listener = languageClientManager.onDidChange(() => {
+            listener.dispose();
+            resolve();
+          });
+        });
+        clientPromise = languageClientManager.resumeClientByUri(uri);
+      }
+      await clientPromise;
+    },
+    onDidChangeServerReadiness: onDidChangeServerReadiness.event,
+    getProjectDir: (uri) => workspaceTracker.getProjectDirForUri(uri),
+    getDiscoveredTests: () => {
+      const tests: DiscoveredTest[] = [];
+      // biome-ignore lint/complexity/noForEach: TestItemCollection is iterated with forEach
+      testController.items.forEach((item) => {
+        tests.push(toDiscoveredTest(item));
+      });
+      return tests;
+    },
+    onDidDiscoverTests,
+  };
+}
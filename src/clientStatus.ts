@@ -0,0 +1,196 @@
+import * as vscode from "vscode";
+import { State } from "vscode-languageclient/node";
+import type {
+  ClientStatus,
+  LanguageClientManager,
+} from "./languageClientManager";
+import { lspLatencyMetrics } from "./lspLatency";
+import { getClientLabel } from "./project";
+import { isWorkspaceTrusted } from "./workspaceTrust";
+
+// Uptime and latency shown in the tree view and status bar are refreshed periodically
+const refreshInterval = 30 * 1000;
+
+function stateLabel(status: ClientStatus): string {
+  if (status.crashLoop) {
+    return "Crashed";
+  }
+  if (status.suspended) {
+    return "Suspended";
+  }
+  return State[status.state];
+}
+
+function formatUptime(runningSince: number | undefined): string {
+  if (runningSince === undefined) {
+    return "-";
+  }
+  const seconds = Math.floor((Date.now() - runningSince) / 1000);
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) {
+    return `${minutes}m`;
+  }
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+function stateIcon(status: ClientStatus): vscode.ThemeIcon {
+  if (status.crashLoop) {
+    return new vscode.ThemeIcon(
+      "error",
+      new vscode.ThemeColor("errorForeground"),
+    );
+  }
+  if (status.suspended) {
+    return new vscode.ThemeIcon("debug-pause");
+  }
+  switch (status.state) {
+    case State.Running:
+      return new vscode.ThemeIcon("pass");
+    case State.Starting:
+      return new vscode.ThemeIcon("loading~spin");
+    default:
+      return new vscode.ThemeIcon("debug-stop");
+  }
+}
+
+class ClientStatusTreeDataProvider
+  implements vscode.TreeDataProvider<ClientStatus>
+{
+  private _onDidChangeTreeData = new vscode.EventEmitter<void>();
+  get onDidChangeTreeData(): vscode.Event<void> {
+    return this._onDidChangeTreeData.event;
+  }
+
+  constructor(private languageClientManager: LanguageClientManager) {}
+
+  public refresh() {
+    this._onDidChangeTreeData.fire();
+  }
+
+  public getChildren(element?: ClientStatus): ClientStatus[] {
+    if (element) {
+      return [];
+    }
+    return this.languageClientManager.getClientStatuses();
+  }
+
+  public getTreeItem(status: ClientStatus): vscode.TreeItem {
+    const item = new vscode.TreeItem(getClientLabel(status.key));
+    item.id = status.key ?? "default";
+    item.iconPath = stateIcon(status);
+    item.contextValue = "elixirLSClient";
+    item.description = `${stateLabel(status)} · up ${formatUptime(
+      status.runningSince,
+    )} · ${status.restartCount} restarts`;
+    item.tooltip = new vscode.MarkdownString(
+      [
+        `**${status.client.name}**`,
+        "",
+        `- State: ${stateLabel(status)}`,
+        `- Uptime: ${formatUptime(status.runningSince)}`,
+        `- Restarts: ${status.restartCount}`,
+      ].join("\n"),
+    );
+    return item;
+  }
+}
+
+export function configureClientStatus(
+  context: vscode.ExtensionContext,
+  languageClientManager: LanguageClientManager,
+) {
+  const treeDataProvider = new ClientStatusTreeDataProvider(
+    languageClientManager,
+  );
+  context.subscriptions.push(
+    vscode.window.registerTreeDataProvider(
+      "elixirLS.languageServers",
+      treeDataProvider,
+    ),
+  );
+
+  const statusBarItem = vscode.window.createStatusBarItem(
+    "elixirLS.languageServers",
+    vscode.StatusBarAlignment.Left,
+  );
+  statusBarItem.name = "ElixirLS";
+  context.subscriptions.push(statusBarItem);
+
+  const updateStatusBar = () => {
+    const statuses = languageClientManager.getClientStatuses();
+    if (statuses.length === 0) {
+      if (isWorkspaceTrusted()) {
+        statusBarItem.hide();
+      } else {
+        statusBarItem.text = "$(workspace-untrusted) ElixirLS";
+        statusBarItem.tooltip =
+          "Restricted Mode: language servers, debugger and Mix tasks are disabled until the workspace is trusted";
+        statusBarItem.command = "workbench.trust.manage";
+        statusBarItem.backgroundColor = undefined;
+        statusBarItem.show();
+      }
+      return;
+    }
+    statusBarItem.command = "elixirLS.languageServers.focus";
+
+    if (statuses.some((status) => status.crashLoop)) {
+      statusBarItem.text = "$(error) ElixirLS";
+      statusBarItem.backgroundColor = new vscode.ThemeColor(
+        "statusBarItem.errorBackground",
+      );
+    } else if (statuses.some((status) => status.state === State.Starting)) {
+      statusBarItem.text = "$(loading~spin) ElixirLS";
+      statusBarItem.backgroundColor = undefined;
+    } else if (
+      statuses.some(
+        (status) => status.state === State.Stopped && !status.suspended,
+      )
+    ) {
+      statusBarItem.text = "$(warning) ElixirLS";
+      statusBarItem.backgroundColor = new vscode.ThemeColor(
+        "statusBarItem.warningBackground",
+      );
+    } else {
+      statusBarItem.text = "$(check) ElixirLS";
+      statusBarItem.backgroundColor = undefined;
+    }
+
+    const tooltip = new vscode.MarkdownString(
+      statuses
+        .map(
+          (status) =>
+            `- ${getClientLabel(status.key)}: ${stateLabel(status)}, ${status.restartCount} restarts`,
+        )
+        .join("\n"),
+    );
+    const latency = lspLatencyMetrics.summaryMarkdown();
+    if (latency) {
+      tooltip.appendMarkdown(`\n\n---\n\n${latency}`);
+    }
+    tooltip.appendMarkdown(
+      "\n\n[Show request latency](command:extension.showLspLatency)",
+    );
+    tooltip.isTrusted = { enabledCommands: ["extension.showLspLatency"] };
+    statusBarItem.tooltip = tooltip;
+    statusBarItem.show();
+  };
+
+  const refresh = () => {
+    updateStatusBar();
+    treeDataProvider.refresh();
+  };
+
+  context.subscriptions.push(
+    languageClientManager.onDidChange(refresh),
+    languageClientManager.onDidChangeClientState(refresh),
+    vscode.workspace.onDidGrantWorkspaceTrust(refresh),
+  );
+
+  const timer = setInterval(refresh, refreshInterval);
+  context.subscriptions.push({ dispose: () => clearInterval(timer) });
+
+  refresh();
+}
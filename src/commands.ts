@@ -5,12 +5,14 @@ import { configureManipulatePipes } from "./commands/manipulatePipes";
 import { configureMixClean } from "./commands/mixClean";
 import { configureRestart } from "./commands/restart";
 import type { LanguageClientManager } from "./languageClientManager";
+import type { WorkspaceTracker } from "./project";
 
 export function configureCommands(
   context: vscode.ExtensionContext,
   languageClientManager: LanguageClientManager,
+  workspaceTracker: WorkspaceTracker,
 ) {
-  configureCopyDebugInfo(context);
+  configureCopyDebugInfo(context, languageClientManager, workspaceTracker);
   configureExpandMacro(context, languageClientManager);
   configureRestart(context, languageClientManager);
   configureMixClean(context, languageClientManager, false);
@@ -1,13 +1,186 @@
-import { execSync } from "node:child_process";
 import * as os from "node:os";
 import * as vscode from "vscode";
+import { State } from "vscode-languageclient/node";
+import { getInstalledConflictingExtensions } from "../conflictingExtensions";
 import { ELIXIR_LS_EXTENSION_NAME } from "../constants";
+import { buildEnvironment } from "../executable";
+import type { LanguageClientManager } from "../languageClientManager";
+import { type WorkspaceTracker, getClientLabel } from "../project";
+import { serverLogRecorder } from "../serverLog";
+import { preprocessStacktrace } from "../telemetry";
+import { getSelectedToolchain, getToolchainVersions } from "../toolchain";
+import { isWorkspaceTrusted } from "../workspaceTrust";
 
-export function configureCopyDebugInfo(context: vscode.ExtensionContext) {
+const logTailLines = 100;
+
+// values of these settings may contain credentials
+const redactedSettings = new Set(["envVariables", "languageServerAddress"]);
+
+function getSettingNames(extension: vscode.Extension<unknown>): string[] {
+  const properties: Record<string, unknown> =
+    extension.packageJSON.contributes?.configuration?.properties ?? {};
+  return Object.keys(properties)
+    .filter((name) => name.startsWith("elixirLS."))
+    .map((name) => name.slice("elixirLS.".length))
+    .sort();
+}
+
+// Only settings that differ from defaults are reported
+function getEffectiveSettings(
+  settingNames: string[],
+  folder: vscode.WorkspaceFolder | undefined,
+): Record<string, unknown> {
+  const config = vscode.workspace.getConfiguration("elixirLS", folder);
+  const settings: Record<string, unknown> = {};
+  for (const name of settingNames) {
+    const inspected = config.inspect(name);
+    const value = config.get(name);
+    if (
+      JSON.stringify(value) === JSON.stringify(inspected?.defaultValue) ||
+      value === undefined
+    ) {
+      continue;
+    }
+    settings[name] = redactedSettings.has(name) ? "<redacted>" : value;
+  }
+  return settings;
+}
+
+async function toolchainSection(folders: readonly vscode.WorkspaceFolder[]) {
+  const lines = ["### Toolchains", ""];
+  if (!isWorkspaceTrusted()) {
+    return [...lines, "* not detected in Restricted Mode"];
+  }
+  for (const folder of folders) {
+    const versions = await getToolchainVersions(folder);
+    const toolchain = getSelectedToolchain(folder)?.label ?? "PATH";
+    lines.push(
+      `* ${folder.name}: ${toolchain}, Elixir ${
+        versions.elixirVersion ?? "not found"
+      }, OTP ${versions.otpVersion ?? "not found"}`,
+    );
+  }
+  if (folders.length === 0) {
+    lines.push("* no workspace folders");
+  }
+  return lines;
+}
+
+// Only names of variables set by the toolchain and elixirLS.envFile are
+// reported, values may contain credentials
+function environmentSection(folders: readonly vscode.WorkspaceFolder[]) {
+  const lines = ["### Environment variables", ""];
+  if (!isWorkspaceTrusted()) {
+    return [...lines, "* not loaded in Restricted Mode"];
+  }
+  for (const folder of folders) {
+    const names = Object.keys(buildEnvironment(folder)).sort();
+    lines.push(
+      `* ${folder.name}: ${names.length > 0 ? names.join(", ") : "none"}`,
+    );
+  }
+  if (folders.length === 0) {
+    lines.push("* no workspace folders");
+  }
+  return lines;
+}
+
+function clientsSection(languageClientManager: LanguageClientManager) {
+  const lines = ["### Language servers", ""];
+  const statuses = languageClientManager.getClientStatuses();
+  for (const status of statuses) {
+    lines.push(
+      `* ${getClientLabel(status.key)}: ${State[status.state]}, ${
+        status.restartCount
+      } restarts${status.crashLoop ? ", crash loop" : ""}${
+        status.suspended ? ", suspended" : ""
+      }`,
+    );
+  }
+  if (statuses.length === 0) {
+    lines.push("* no language servers started");
+  }
+  return lines;
+}
+
+function settingsSection(
+  extension: vscode.Extension<unknown>,
+  folders: readonly vscode.WorkspaceFolder[],
+) {
+  const settingNames = getSettingNames(extension);
+  const lines = ["### Settings different from defaults", ""];
+  for (const folder of folders.length > 0 ? folders : [undefined]) {
+    lines.push(
+      `${folder?.name ?? "Global"}:`,
+      "```json",
+      JSON.stringify(getEffectiveSettings(settingNames, folder), null, 2),
+      "```",
+    );
+  }
+  return lines;
+}
+
+function logSection() {
+  const lines = [`### Server log (last ${logTailLines} lines)`, ""];
+  const keys = serverLogRecorder.clientKeys();
+  for (const key of keys) {
+    lines.push(
+      `${getClientLabel(key)}:`,
+      "```",
+      ...serverLogRecorder.tail(key, logTailLines),
+      "```",
+    );
+  }
+  if (keys.length === 0) {
+    lines.push("No server output recorded");
+  }
+  return lines;
+}
+
+async function buildDebugInfo(
+  extension: vscode.Extension<unknown>,
+  languageClientManager: LanguageClientManager,
+  workspaceTracker: WorkspaceTracker,
+): Promise<string> {
+  const folders = vscode.workspace.workspaceFolders ?? [];
+  const conflictingExtensions = getInstalledConflictingExtensions();
+  const lines = [
+    "### Environment",
+    "",
+    `* VSCode ElixirLS version: ${extension.packageJSON.version}`,
+    `* VSCode version: ${vscode.version}`,
+    `* Operating System Version: ${os.platform()} ${os.release()} ${os.arch()}`,
+    `* Workspace mode: ${workspaceTracker.mode}`,
+    `* Workspace trusted: ${isWorkspaceTrusted()}`,
+    `* Conflicting extensions: ${
+      conflictingExtensions.length > 0
+        ? conflictingExtensions.join(", ")
+        : "none"
+    }`,
+    "",
+    ...(await toolchainSection(folders)),
+    "",
+    ...environmentSection(folders),
+    "",
+    ...clientsSection(languageClientManager),
+    "",
+    ...settingsSection(extension, folders),
+    "",
+    ...logSection(),
+  ];
+
+  // user paths and credentials are not needed to diagnose issues
+  return preprocessStacktrace(lines.join("\n")).split(os.homedir()).join("~");
+}
+
+export function configureCopyDebugInfo(
+  context: vscode.ExtensionContext,
+  languageClientManager: LanguageClientManager,
+  workspaceTracker: WorkspaceTracker,
+) {
   const disposable = vscode.commands.registerCommand(
     "extension.copyDebugInfo",
-    () => {
-      const elixirVersion = execSync("elixir --version");
+    async () => {
       const extension = vscode.extensions.getExtension(
         ELIXIR_LS_EXTENSION_NAME,
       );
@@ -15,14 +188,48 @@ export function configureCopyDebugInfo(context: vscode.ExtensionContext) {
         return;
       }
 
-      const message = `
-* Elixir & Erlang versions (elixir --version): ${elixirVersion}
-* VSCode ElixirLS version: ${extension.packageJSON.version}
-* Operating System Version: ${os.platform()} ${os.release()}
-`;
+      const debugInfo = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: "ElixirLS: collecting debug info",
+        },
+        () =>
+          buildDebugInfo(extension, languageClientManager, workspaceTracker),
+      );
+
+      // the preview can be edited before it is copied or saved
+      const document = await vscode.workspace.openTextDocument({
+        language: "markdown",
+        content: debugInfo,
+      });
+      await vscode.window.showTextDocument(document);
 
-      vscode.window.showInformationMessage(`Copied to clipboard: ${message}`);
-      vscode.env.clipboard.writeText(message);
+      const selection = await vscode.window.showInformationMessage(
+        "Review ElixirLS debug info before sharing it",
+        "Copy to Clipboard",
+        "Save to File",
+      );
+      if (selection === "Copy to Clipboard") {
+        await vscode.env.clipboard.writeText(document.getText());
+        vscode.window.showInformationMessage(
+          "Copied ElixirLS debug info to clipboard",
+        );
+      } else if (selection === "Save to File") {
+        const uri = await vscode.window.showSaveDialog({
+          filters: { Markdown: ["md"] },
+          saveLabel: "Save debug info",
+        });
+        if (!uri) {
+          return;
+        }
+        await vscode.workspace.fs.writeFile(
+          uri,
+          Buffer.from(document.getText()),
+        );
+        vscode.window.showInformationMessage(
+          `Saved ElixirLS debug info to ${uri.fsPath}`,
+        );
+      }
     },
   );
   context.subscriptions.push(disposable);
@@ -1,34 +1,100 @@
 import * as vscode from "vscode";
-import {
-  type ExecuteCommandParams,
-  ExecuteCommandRequest,
-  State,
-} from "vscode-languageclient";
 import { ELIXIR_LS_EXTENSION_NAME } from "../constants";
+import { ExpandMacroPanel, type MacroExpansion } from "../expandMacroPanel";
 import type { LanguageClientManager } from "../languageClientManager";
+import { findCallRange, findEnclosingMacroCall, isUseLine } from "../macroCall";
+import {
+  executeServerCommand,
+  reportServerCommandError,
+} from "../serverCommands";
+
+// Selection changes are expanded after the user stops moving the cursor
+const followSelectionDelay = 500;
+
+const expandMacroTitle = "Expand macro";
+const expandMacroActionKind =
+  vscode.CodeActionKind.RefactorRewrite.append("expandMacro");
+
+// Offered for explicit selections and for `use` calls at the cursor, other
+// calls starting on the line are not known to be macros
+class ExpandMacroCodeActionProvider implements vscode.CodeActionProvider {
+  public static readonly providedCodeActionKinds = [expandMacroActionKind];
+
+  public provideCodeActions(
+    document: vscode.TextDocument,
+    range: vscode.Range | vscode.Selection,
+  ): vscode.CodeAction[] {
+    let callRange: vscode.Range | undefined = range;
+    if (range.isEmpty) {
+      callRange = isUseLine(document.lineAt(range.start.line).text)
+        ? findCallRange(document, range.start.line)
+        : undefined;
+    }
+    if (!callRange) {
+      return [];
+    }
+    const action = new vscode.CodeAction(
+      expandMacroTitle,
+      expandMacroActionKind,
+    );
+    action.command = {
+      title: expandMacroTitle,
+      command: "extension.expandMacro",
+      arguments: [document.uri, callRange],
+    };
+    return [action];
+  }
+}
+
+class UseCodeLensProvider implements vscode.CodeLensProvider {
+  public provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+    const enabled = vscode.workspace
+      .getConfiguration("elixirLS", document)
+      .get<boolean>("expandMacroLenses");
+    if (!enabled) {
+      return [];
+    }
+
+    const lenses: vscode.CodeLens[] = [];
+    for (let line = 0; line < document.lineCount; line++) {
+      if (!isUseLine(document.lineAt(line).text)) {
+        continue;
+      }
+      const range = findCallRange(document, line);
+      if (range) {
+        lenses.push(
+          new vscode.CodeLens(range, {
+            title: expandMacroTitle,
+            command: "extension.expandMacro",
+            arguments: [document.uri, range],
+          }),
+        );
+      }
+    }
+    return lenses;
+  }
+}
 
-const ExpandMacroTitle = "Expand macro result";
+async function expandMacro(
+  languageClientManager: LanguageClientManager,
+  document: vscode.TextDocument,
+  range: vscode.Range,
+): Promise<MacroExpansion | undefined> {
+  const uri = document.uri;
+  const clientPromise = languageClientManager.resumeClientByDocument(document);
 
-function getExpandMacroWebviewContent(content: Record<string, string>) {
-  let body = "";
-  for (const [key, value] of Object.entries(content)) {
-    body += `<div>
-      <h4>${key}</h4>
-      <code><pre>${value}</pre></code>
-    </div>`;
+  if (!clientPromise) {
+    console.error(`ElixirLS: no language client for document ${uri.fsPath}`);
+    return undefined;
   }
 
-  return `<!DOCTYPE html>
-<html lang="en">
-<head>
-    <meta charset="UTF-8">
-    <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>${ExpandMacroTitle}</title>
-</head>
-<body>
-  ${body}
-</body>
-</html>`;
+  const source = document.getText(range);
+  const stages = await executeServerCommand<Record<string, string>>(
+    clientPromise,
+    "expandMacro",
+    [uri.toString(), source, range.start.line],
+  );
+  return { source, stages };
 }
 
 export function configureExpandMacro(
@@ -37,72 +103,100 @@ export function configureExpandMacro(
 ) {
   const disposable = vscode.commands.registerCommand(
     "extension.expandMacro",
-    async () => {
+    // invoked with a range from code actions and code lenses
+    async (uri?: vscode.Uri, range?: vscode.Range) => {
       const extension = vscode.extensions.getExtension(
         ELIXIR_LS_EXTENSION_NAME,
       );
       const editor = vscode.window.activeTextEditor;
-      if (!extension || !editor) {
+      if (!extension || (!editor && !uri)) {
         return;
       }
 
-      if (editor.selection.isEmpty) {
-        console.error("ElixirLS: selection is empty");
+      const document =
+        uri && uri.toString() !== editor?.document.uri.toString()
+          ? await vscode.workspace.openTextDocument(uri)
+          : editor?.document;
+      let expandRange = range ?? editor?.selection;
+      if (!document || !expandRange) {
         return;
       }
+      if (expandRange.isEmpty) {
+        expandRange = await findEnclosingMacroCall(document, expandRange.start);
+        if (!expandRange) {
+          vscode.window.showInformationMessage(
+            "ElixirLS: no macro call found at cursor",
+          );
+          return;
+        }
+      }
 
-      const uri = editor.document.uri;
-      const clientPromise = languageClientManager.getClientPromiseByDocument(
-        editor.document,
-      );
-
-      if (!clientPromise) {
-        console.error(
-          `ElixirLS: no language client for document ${uri.fsPath}`,
+      let expansion: MacroExpansion | undefined;
+      try {
+        expansion = await expandMacro(
+          languageClientManager,
+          document,
+          expandRange,
         );
+      } catch (e) {
+        reportServerCommandError("Unable to expand macro", e);
         return;
       }
 
-      const client = await clientPromise;
+      if (expansion) {
+        ExpandMacroPanel.show(context, expansion);
+      }
+    },
+  );
 
-      if (!client.initializeResult) {
-        console.error(
-          `ElixirLS: unable to execute command on server ${
-            client.name
-          } in state ${State[client.state]}`,
+  let followTimer: NodeJS.Timeout | undefined;
+  const followSelection = (event: vscode.TextEditorSelectionChangeEvent) => {
+    clearTimeout(followTimer);
+    const document = event.textEditor.document;
+    const selection = event.selections[0];
+    if (
+      !ExpandMacroPanel.following ||
+      document.languageId !== "elixir" ||
+      !selection ||
+      selection.isEmpty
+    ) {
+      return;
+    }
+
+    followTimer = setTimeout(async () => {
+      try {
+        const expansion = await expandMacro(
+          languageClientManager,
+          document,
+          selection,
         );
-        return;
+        if (expansion) {
+          ExpandMacroPanel.following?.update(expansion);
+        }
+      } catch (e) {
+        // selections that are not valid expressions are expected while following
+        console.log(`ElixirLS: unable to expand macro: ${e}`);
       }
+    }, followSelectionDelay);
+  };
 
-      const command =
-        // biome-ignore lint/style/noNonNullAssertion: server capabilities guarantee this command exists
-        client.initializeResult.capabilities.executeCommandProvider?.commands.find(
-          (c) => c.startsWith("expandMacro:"),
-        )!;
-
-      const params: ExecuteCommandParams = {
-        command: command,
-        arguments: [
-          uri.toString(),
-          editor.document.getText(editor.selection),
-          editor.selection.start.line,
-        ],
-      };
-
-      const res: Record<string, string> = await client.sendRequest(
-        ExecuteCommandRequest.type,
-        params,
-      );
-
-      const panel = vscode.window.createWebviewPanel(
-        "expandMacro",
-        ExpandMacroTitle,
-        vscode.ViewColumn.One,
-        {},
-      );
-      panel.webview.html = getExpandMacroWebviewContent(res);
-    },
+  const documentSelector = { language: "elixir", scheme: "file" };
+  context.subscriptions.push(
+    disposable,
+    vscode.languages.registerCodeActionsProvider(
+      documentSelector,
+      new ExpandMacroCodeActionProvider(),
+      {
+        providedCodeActionKinds:
+          ExpandMacroCodeActionProvider.providedCodeActionKinds,
+      },
+    ),
+    vscode.languages.registerCodeLensProvider(
+      documentSelector,
+      new UseCodeLensProvider(),
+    ),
+    vscode.window.onDidChangeTextEditorSelection(followSelection),
+    { dispose: () => clearTimeout(followTimer) },
+    { dispose: () => ExpandMacroPanel.dispose() },
   );
-
-  context.subscriptions.push(disposable);
 }
@@ -1,65 +1,264 @@
 import * as vscode from "vscode";
-import {
-  type ExecuteCommandParams,
-  ExecuteCommandRequest,
-  State,
-} from "vscode-languageclient";
 import { ELIXIR_LS_EXTENSION_NAME } from "../constants";
 import type { LanguageClientManager } from "../languageClientManager";
+import {
+  executeServerCommand,
+  reportServerCommandError,
+} from "../serverCommands";
+import { captureWorkspaceEdits } from "../workspaceEditCapture";
 
-export function configureManipulatePipes(
-  context: vscode.ExtensionContext,
+type PipeOperation = "toPipe" | "fromPipe";
+
+const pipeActionKind = vscode.CodeActionKind.RefactorRewrite.append("pipe");
+
+const operationTitles: Record<PipeOperation, string> = {
+  toPipe: "Convert to pipe",
+  fromPipe: "Convert from pipe",
+};
+
+// Calls with arguments, e.g. `foo(a)` or `Mod.foo(a, b)`, not preceded by a pipe
+const callRegex = /(?<![\w.:@])((?:[A-Z]\w*\.)*[a-z_]\w*[?!]?)\((?!\s*\))/g;
+const definitionRegex =
+  /^\s*(?:def|defp|defmacro|defmacrop|defguard|defguardp)\b/;
+
+// Positions the server command is executed at. Empty ranges are single cursor
+// positions, other ranges are searched for calls or pipes.
+function findPipePositions(
+  document: vscode.TextDocument,
+  ranges: readonly vscode.Range[],
+  operation: PipeOperation,
+): vscode.Position[] {
+  const positions: vscode.Position[] = [];
+  for (const range of ranges) {
+    if (range.isEmpty) {
+      positions.push(range.start);
+      continue;
+    }
+    for (let line = range.start.line; line <= range.end.line; line++) {
+      const text = document.lineAt(line).text;
+      if (operation === "fromPipe") {
+        const index = text.indexOf("|>");
+        if (index !== -1 && range.contains(new vscode.Position(line, index))) {
+          positions.push(new vscode.Position(line, index));
+        }
+        continue;
+      }
+
+      if (definitionRegex.test(text)) {
+        continue;
+      }
+      for (const match of text.matchAll(callRegex)) {
+        const position = new vscode.Position(line, match.index ?? 0);
+        const piped = /\|>\s*$/.test(text.slice(0, match.index));
+        if (!piped && range.contains(position)) {
+          positions.push(position);
+        }
+      }
+    }
+  }
+  return positions;
+}
+
+// Merges edits computed against the same document version, edits overlapping
+// an earlier one (e.g. nested calls) are dropped
+function mergeEdits(
+  edits: vscode.WorkspaceEdit[],
+  operation: PipeOperation,
+): vscode.WorkspaceEdit {
+  const merged = new vscode.WorkspaceEdit();
+  const metadata: vscode.WorkspaceEditEntryMetadata = {
+    needsConfirmation: true,
+    label: operationTitles[operation],
+  };
+  const applied = new Map<string, vscode.Range[]>();
+  for (const edit of edits) {
+    for (const [uri, textEdits] of edit.entries()) {
+      const ranges = applied.get(uri.toString()) ?? [];
+      applied.set(uri.toString(), ranges);
+      for (const textEdit of textEdits) {
+        if (ranges.some((range) => range.intersection(textEdit.range))) {
+          continue;
+        }
+        ranges.push(textEdit.range);
+        merged.replace(uri, textEdit.range, textEdit.newText, metadata);
+      }
+    }
+  }
+  return merged;
+}
+
+async function manipulatePipes(
   languageClientManager: LanguageClientManager,
-  operation: "toPipe" | "fromPipe",
+  operation: PipeOperation,
+  document: vscode.TextDocument,
+  ranges: readonly vscode.Range[],
 ) {
-  const commandName = `extension.${operation}`;
+  const uri = document.uri;
+  const clientPromise = languageClientManager.resumeClientByDocument(document);
 
-  const disposable = vscode.commands.registerCommand(commandName, async () => {
-    const extension = vscode.extensions.getExtension(ELIXIR_LS_EXTENSION_NAME);
-    const editor = vscode.window.activeTextEditor;
-    if (!extension || !editor) {
-      return;
-    }
+  if (!clientPromise) {
+    console.error(`ElixirLS: no language client for document ${uri.fsPath}`);
+    return;
+  }
 
-    const uri = editor.document.uri;
-    const clientPromise = languageClientManager.getClientPromiseByDocument(
-      editor.document,
+  const positions = findPipePositions(document, ranges, operation);
+  if (positions.length === 0) {
+    vscode.window.showInformationMessage(
+      `ElixirLS: nothing to ${operationTitles[operation].toLowerCase()}`,
     );
+    return;
+  }
 
-    if (!clientPromise) {
-      console.error(`ElixirLS: no language client for document ${uri.fsPath}`);
-      return;
-    }
+  const client = await clientPromise;
+  let edits: vscode.WorkspaceEdit[];
+  try {
+    edits = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `ElixirLS: ${operationTitles[operation]}`,
+        cancellable: true,
+      },
+      async (_progress, token) => {
+        const edits: vscode.WorkspaceEdit[] = [];
+        let lastError: unknown;
+        for (const position of positions) {
+          try {
+            edits.push(
+              ...(await captureWorkspaceEdits(client, uri, () =>
+                executeServerCommand(
+                  client,
+                  "manipulatePipes",
+                  [
+                    operation,
+                    uri.toString(),
+                    position.line,
+                    position.character,
+                  ],
+                  { token },
+                ),
+              )),
+            );
+          } catch (e) {
+            // in range mode ineligible candidates are expected, the failure is
+            // reported to the user when no position could be converted
+            if (token.isCancellationRequested) {
+              throw e;
+            }
+            lastError = e;
+          }
+        }
+        if (edits.length === 0 && lastError !== undefined) {
+          throw lastError;
+        }
+        return edits;
+      },
+    );
+  } catch (e) {
+    reportServerCommandError("Unable to manipulate pipes", e);
+    return;
+  }
 
-    const client = await clientPromise;
+  const merged = mergeEdits(edits, operation);
+  if (merged.size === 0) {
+    vscode.window.showInformationMessage(
+      `ElixirLS: nothing to ${operationTitles[operation].toLowerCase()}`,
+    );
+    return;
+  }
+  await vscode.workspace.applyEdit(merged);
+}
 
-    if (!client.initializeResult) {
-      console.error(
-        `ElixirLS: unable to execute command on server ${
-          client.name
-        } in state ${State[client.state]}`,
-      );
-      return;
+class PipeCodeActionProvider implements vscode.CodeActionProvider {
+  constructor(private operation: PipeOperation) {}
+
+  public provideCodeActions(
+    document: vscode.TextDocument,
+    range: vscode.Range | vscode.Selection,
+  ): vscode.CodeAction[] {
+    // without a selection calls or pipes on the cursor line are converted
+    const actionRange = range.isEmpty
+      ? document.lineAt(range.start.line).range
+      : range;
+    const candidates = findPipePositions(
+      document,
+      [actionRange],
+      this.operation,
+    );
+    if (candidates.length === 0) {
+      return [];
     }
+    const action = new vscode.CodeAction(
+      operationTitles[this.operation],
+      pipeActionKind,
+    );
+    action.command = {
+      title: operationTitles[this.operation],
+      command: `extension.${this.operation}`,
+      arguments: [document.uri, [actionRange]],
+    };
+    return [action];
+  }
+}
 
-    const command =
-      // biome-ignore lint/style/noNonNullAssertion: server capabilities guarantee this command exists
-      client.initializeResult.capabilities.executeCommandProvider?.commands.find(
-        (c: string) => c.startsWith("manipulatePipes:"),
-      )!;
+export function configureManipulatePipes(
+  context: vscode.ExtensionContext,
+  languageClientManager: LanguageClientManager,
+  operation: PipeOperation,
+) {
+  const commandName = `extension.${operation}`;
+
+  // ranges are passed by code actions, otherwise all selections of the active
+  // editor are used
+  const disposable = vscode.commands.registerCommand(
+    commandName,
+    async (uri?: vscode.Uri, ranges?: vscode.Range[]) => {
+      const extension = vscode.extensions.getExtension(
+        ELIXIR_LS_EXTENSION_NAME,
+      );
+      const editor = vscode.window.activeTextEditor;
+      if (!extension || (!editor && !uri)) {
+        return;
+      }
 
-    const uriStr = uri.toString();
-    const args = [
-      operation,
-      uriStr,
-      editor.selection.start.line,
-      editor.selection.start.character,
-    ];
+      const document =
+        uri && uri.toString() !== editor?.document.uri.toString()
+          ? await vscode.workspace.openTextDocument(uri)
+          : editor?.document;
+      const selections = ranges ?? editor?.selections;
+      if (!document || !selections) {
+        return;
+      }
 
-    const params: ExecuteCommandParams = { command, arguments: args };
+      await manipulatePipes(
+        languageClientManager,
+        operation,
+        document,
+        selections,
+      );
+    },
+  );
 
-    await client.sendRequest(ExecuteCommandRequest.type, params);
-  });
+  const inFileDisposable = vscode.commands.registerCommand(
+    `${commandName}InFile`,
+    async () => {
+      const document = vscode.window.activeTextEditor?.document;
+      if (!document) {
+        return;
+      }
+      const lastLine = document.lineAt(document.lineCount - 1);
+      await manipulatePipes(languageClientManager, operation, document, [
+        new vscode.Range(new vscode.Position(0, 0), lastLine.range.end),
+      ]);
+    },
+  );
 
-  context.subscriptions.push(disposable);
+  context.subscriptions.push(
+    disposable,
+    inFileDisposable,
+    vscode.languages.registerCodeActionsProvider(
+      { language: "elixir" },
+      new PipeCodeActionProvider(operation),
+      { providedCodeActionKinds: [pipeActionKind] },
+    ),
+  );
 }
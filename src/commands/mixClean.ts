@@ -1,12 +1,226 @@
 import * as vscode from "vscode";
-import {
-  type ExecuteCommandParams,
-  ExecuteCommandRequest,
-  type LanguageClient,
-  State,
-} from "vscode-languageclient/node";
 import { ELIXIR_LS_EXTENSION_NAME } from "../constants";
-import type { LanguageClientManager } from "../languageClientManager";
+import type {
+  ClientStatus,
+  LanguageClientManager,
+} from "../languageClientManager";
+import { getClientLabel, getProjectDir } from "../project";
+import {
+  ServerCommandCancelledError,
+  executeServerCommand,
+  reportServerCommandError,
+} from "../serverCommands";
+import { type MixTaskSpec, createMixTask, mixTaskSpecs } from "../taskProvider";
+import { reporter } from "../telemetry";
+import {
+  isWorkspaceTrusted,
+  showRestrictedModeMessage,
+} from "../workspaceTrust";
+
+type FollowUp = "none" | "compile" | "depsGetAndCompile";
+
+interface ClientQuickPickItem extends vscode.QuickPickItem {
+  status: ClientStatus;
+}
+
+interface FollowUpQuickPickItem extends vscode.QuickPickItem {
+  followUp: FollowUp;
+}
+
+interface CleanResult {
+  label: string;
+  error?: string;
+}
+
+const followUpItems: FollowUpQuickPickItem[] = [
+  { label: "Clean only", followUp: "none" },
+  {
+    label: "Clean and rebuild",
+    detail: "mix compile",
+    followUp: "compile",
+  },
+  {
+    label: "Clean, get deps and rebuild",
+    detail: "mix deps.get && mix compile",
+    followUp: "depsGetAndCompile",
+  },
+];
+
+const followUpTasks: Record<FollowUp, string[]> = {
+  none: [],
+  compile: ["mix compile"],
+  depsGetAndCompile: ["mix deps.get", "mix compile"],
+};
+
+function findTaskSpec(command: string): MixTaskSpec {
+  const spec = mixTaskSpecs.find((spec) => spec.command === command);
+  if (!spec) {
+    throw new Error(`no Mix task spec for ${command}`);
+  }
+  return spec;
+}
+
+// Runs the task and resolves with its exit code, undefined when the task was
+// terminated or did not report one. The task is terminated when cancellation is
+// requested.
+async function runTask(
+  task: vscode.Task,
+  token: vscode.CancellationToken,
+): Promise<number | undefined> {
+  let execution: vscode.TaskExecution | undefined;
+  // events of fast tasks may be fired before executeTask resolves
+  const ended: { execution: vscode.TaskExecution; exitCode?: number }[] = [];
+  let onEnded: (() => void) | undefined;
+  const disposables = [
+    vscode.tasks.onDidEndTaskProcess((event) => {
+      ended.push({ execution: event.execution, exitCode: event.exitCode });
+      onEnded?.();
+    }),
+    // fallback for tasks whose process end is not reported, e.g. failed to start
+    vscode.tasks.onDidEndTask((event) => {
+      ended.push({ execution: event.execution });
+      onEnded?.();
+    }),
+    token.onCancellationRequested(() => execution?.terminate()),
+  ];
+
+  try {
+    execution = await vscode.tasks.executeTask(task);
+    if (token.isCancellationRequested) {
+      execution.terminate();
+    }
+    return await new Promise((resolve) => {
+      onEnded = () => {
+        // the process end carrying the exit code is fired before the task end
+        const end = ended.find((end) => end.execution === execution);
+        if (end) {
+          resolve(end.exitCode);
+        }
+      };
+      onEnded();
+    });
+  } finally {
+    for (const disposable of disposables) disposable.dispose();
+  }
+}
+
+async function pickClients(
+  languageClientManager: LanguageClientManager,
+): Promise<ClientStatus[] | undefined> {
+  const statuses = languageClientManager.getClientStatuses();
+  if (statuses.length <= 1) {
+    return statuses;
+  }
+
+  const items: ClientQuickPickItem[] = statuses.map((status) => ({
+    label: getClientLabel(status.key),
+    description: status.key ? vscode.Uri.parse(status.key).fsPath : undefined,
+    picked: true,
+    status,
+  }));
+  const selection = await vscode.window.showQuickPick(items, {
+    placeHolder: "Select projects to clean",
+    canPickMany: true,
+  });
+  return selection?.map((item) => item.status);
+}
+
+// Directory tasks of the client run in, the default client has no project
+function getClientProject(
+  key: string | undefined,
+): { folder: vscode.WorkspaceFolder; dir: string } | undefined {
+  if (!key) {
+    return undefined;
+  }
+  const uri = vscode.Uri.parse(key);
+  const folder = vscode.workspace.getWorkspaceFolder(uri);
+  if (!folder) {
+    return undefined;
+  }
+  // nested Mix projects are keyed by their own directory
+  const dir =
+    folder.uri.toString() === key ? getProjectDir(folder) : uri.fsPath;
+  return { folder, dir };
+}
+
+async function cleanClient(
+  languageClientManager: LanguageClientManager,
+  status: ClientStatus,
+  cleanDeps: boolean,
+  followUp: FollowUp,
+  progress: vscode.Progress<{ message?: string; increment?: number }>,
+  increment: number,
+  token: vscode.CancellationToken,
+): Promise<CleanResult> {
+  const label = getClientLabel(status.key);
+  const steps = 1 + followUpTasks[followUp].length;
+
+  progress.report({ message: `${label}: mix clean` });
+  try {
+    // a suspended server is started again before it is asked to clean,
+    // cleaning may take long on big projects, do not time out
+    await executeServerCommand(
+      languageClientManager.resumeClient(status.key) ?? status.client,
+      "mixClean",
+      [cleanDeps],
+      { timeout: 0, token },
+    );
+  } catch (e) {
+    if (e instanceof ServerCommandCancelledError) {
+      throw e;
+    }
+    // failures are reported together with results of other projects
+    return { label, error: e instanceof Error ? e.message : String(e) };
+  }
+  progress.report({ increment: increment / steps });
+
+  const project = getClientProject(status.key);
+  for (const command of followUpTasks[followUp]) {
+    if (!project) {
+      return { label, error: `${command} skipped, no Mix project` };
+    }
+    progress.report({ message: `${label}: ${command}` });
+    const exitCode = await runTask(
+      createMixTask(findTaskSpec(command), project.folder, project.dir),
+      token,
+    );
+    if (token.isCancellationRequested) {
+      throw new ServerCommandCancelledError("mixClean");
+    }
+    if (exitCode === undefined) {
+      return { label, error: `${command} was terminated or failed to start` };
+    }
+    if (exitCode !== 0) {
+      return { label, error: `${command} exited with code ${exitCode}` };
+    }
+    progress.report({ increment: increment / steps });
+  }
+  return { label };
+}
+
+function showResults(results: CleanResult[], elapsed: number) {
+  const seconds = (elapsed / 1000).toFixed(1);
+  const failed = results.filter((result) => result.error);
+  for (const result of results) {
+    console.log(
+      `ElixirLS: mix clean in ${result.label} ${
+        result.error ? `failed: ${result.error}` : "succeeded"
+      }`,
+    );
+  }
+
+  if (failed.length === 0) {
+    vscode.window.showInformationMessage(
+      `ElixirLS: cleaned ${results.map((result) => result.label).join(", ")} in ${seconds}s`,
+    );
+  } else {
+    vscode.window.showWarningMessage(
+      `ElixirLS: clean finished in ${seconds}s with errors: ${failed
+        .map((result) => `${result.label} (${result.error})`)
+        .join(", ")}`,
+    );
+  }
+}
 
 export function configureMixClean(
   context: vscode.ExtensionContext,
@@ -21,33 +235,64 @@ export function configureMixClean(
       return;
     }
 
-    await Promise.all(
-      languageClientManager
-        .allClientsPromises()
-        .map(async (clientPromise: Promise<LanguageClient>) => {
-          const client = await clientPromise;
-          if (!client.initializeResult) {
-            console.error(
-              `ElixirLS: unable to execute command on server ${
-                client.name
-              } in state ${State[client.state]}`,
+    const statuses = await pickClients(languageClientManager);
+    if (!statuses) {
+      return;
+    }
+    if (statuses.length === 0) {
+      vscode.window.showInformationMessage("No ElixirLS server is running");
+      return;
+    }
+
+    const followUpItem = await vscode.window.showQuickPick(followUpItems, {
+      placeHolder: "Select what to run after cleaning",
+    });
+    if (!followUpItem) {
+      return;
+    }
+    const { followUp } = followUpItem;
+    if (followUp !== "none" && !isWorkspaceTrusted()) {
+      await showRestrictedModeMessage("Rebuilding projects");
+      return;
+    }
+
+    reporter.sendTelemetryEvent("mix_clean_command", {
+      "elixir_ls.mix_clean_deps": String(cleanDeps),
+      "elixir_ls.mix_clean_follow_up": followUp,
+    });
+
+    const start = Date.now();
+    try {
+      const results = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: `ElixirLS: mix clean${cleanDeps ? " --deps" : ""}`,
+          cancellable: true,
+        },
+        async (progress, token) => {
+          const results: CleanResult[] = [];
+          // projects are cleaned one by one, builds of projects sharing
+          // dependencies would otherwise compete
+          for (const status of statuses) {
+            results.push(
+              await cleanClient(
+                languageClientManager,
+                status,
+                cleanDeps,
+                followUp,
+                progress,
+                100 / statuses.length,
+                token,
+              ),
             );
-            return;
           }
-          const command =
-            // biome-ignore lint/style/noNonNullAssertion: server capabilities guarantee this command exists
-            client.initializeResult.capabilities.executeCommandProvider?.commands.find(
-              (c) => c.startsWith("mixClean:"),
-            )!;
-
-          const params: ExecuteCommandParams = {
-            command: command,
-            arguments: [cleanDeps],
-          };
-
-          await client.sendRequest(ExecuteCommandRequest.type, params);
-        }),
-    );
+          return results;
+        },
+      );
+      showResults(results, Date.now() - start);
+    } catch (e) {
+      reportServerCommandError("Unable to run mix clean", e);
+    }
   });
 
   context.subscriptions.push(disposable);
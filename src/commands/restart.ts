@@ -1,8 +1,70 @@
 import * as vscode from "vscode";
+import type { LanguageClient } from "vscode-languageclient/node";
 import { ELIXIR_LS_EXTENSION_NAME } from "../constants";
-import type { LanguageClientManager } from "../languageClientManager";
+import type {
+  ClientStatus,
+  LanguageClientManager,
+} from "../languageClientManager";
+import { getClientLabel } from "../project";
 import { reporter } from "../telemetry";
 
+interface ClientQuickPickItem extends vscode.QuickPickItem {
+  key: string | undefined;
+}
+
+function getActiveEditorClientKey(
+  languageClientManager: LanguageClientManager,
+): string | undefined | null {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor) {
+    return null;
+  }
+  let activeClient: LanguageClient;
+  try {
+    activeClient = languageClientManager.getClientByUri(editor.document.uri);
+  } catch {
+    return null;
+  }
+  const status = languageClientManager
+    .getClientStatuses()
+    .find((status) => status.client === activeClient);
+  return status ? status.key : null;
+}
+
+async function pickClient(
+  languageClientManager: LanguageClientManager,
+): Promise<ClientQuickPickItem | undefined> {
+  const activeKey = getActiveEditorClientKey(languageClientManager);
+  const items: ClientQuickPickItem[] = languageClientManager
+    .getClientStatuses()
+    .map((status) => {
+      if (!status.key) {
+        return { label: "(default)", key: status.key };
+      }
+      const uri = vscode.Uri.parse(status.key);
+      return {
+        label: getClientLabel(status.key),
+        description: uri.fsPath,
+        detail: status.key === activeKey ? "Active editor" : undefined,
+        key: status.key,
+      };
+    })
+    // offer the active editor's client first
+    .sort((a, b) => Number(b.key === activeKey) - Number(a.key === activeKey));
+
+  if (items.length === 0) {
+    vscode.window.showInformationMessage("No ElixirLS server is running");
+    return undefined;
+  }
+  if (items.length === 1) {
+    return items[0];
+  }
+
+  return vscode.window.showQuickPick(items, {
+    placeHolder: "Select language server to restart",
+  });
+}
+
 export function configureRestart(
   context: vscode.ExtensionContext,
   languageClientManager: LanguageClientManager,
@@ -25,4 +87,38 @@ export function configureRestart(
   );
 
   context.subscriptions.push(disposable);
+
+  // restarts a single client, invoked from the command palette or
+  // from the ElixirLS Servers view with the selected client status
+  const restartClientDisposable = vscode.commands.registerCommand(
+    "extension.restartClient",
+    async (status?: ClientStatus) => {
+      const extension = vscode.extensions.getExtension(
+        ELIXIR_LS_EXTENSION_NAME,
+      );
+
+      if (!extension) {
+        return;
+      }
+
+      let key: string | undefined;
+      if (status) {
+        key = status.key;
+      } else {
+        const selection = await pickClient(languageClientManager);
+        if (!selection) {
+          return;
+        }
+        key = selection.key;
+      }
+
+      reporter.sendTelemetryEvent("restart_client_command", {
+        "elixir_ls.language_client_mode": key ? "workspaceFolder" : "default",
+      });
+
+      languageClientManager.restartClient(key);
+    },
+  );
+
+  context.subscriptions.push(restartClientDisposable);
 }
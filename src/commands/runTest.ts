@@ -6,6 +6,9 @@ import {
   trackerFactory,
 } from "../debugAdapter";
 import { reporter } from "../telemetry";
+import { coverageExportName } from "../testCoverage";
+import { buildTestFailureMessage, findProjectApps } from "../testFailure";
+import { type TestTagFilter, buildTagFilterArgs } from "../testTagFilter";
 
 export type RunTestArgs = {
   cwd: string;
@@ -13,6 +16,12 @@ export type RunTestArgs = {
   line?: number;
   doctestLine?: number;
   module?: string;
+  // runs with `--cover` and exports Erlang cover data
+  coverage?: boolean;
+  // runs with `--failed` or `--stale`
+  failed?: boolean;
+  stale?: boolean;
+  tagFilter?: TestTagFilter;
   workspaceFolder: vscode.WorkspaceFolder;
   getTest: (
     file: string,
@@ -117,6 +126,8 @@ export async function runTest(
     args,
     debug,
   );
+  // stacktrace frames are resolved against apps of the project
+  const projectApps = findProjectApps(args.cwd);
 
   return new Promise((resolve, reject) => {
     const listeners: Array<vscode.Disposable> = [];
@@ -154,12 +165,25 @@ export async function runTest(
               } else if (exUnitEvent === "test_failed") {
                 run.failed(
                   test,
-                  new vscode.TestMessage(data.message),
+                  buildTestFailureMessage(
+                    data.message,
+                    data.file,
+                    args.cwd,
+                    projectApps,
+                  ),
                   data.time / 1000,
                 );
               } else if (exUnitEvent === "test_errored") {
                 // ex_unit does not report duration for invalid tests
-                run.errored(test, new vscode.TestMessage(data.message));
+                run.errored(
+                  test,
+                  buildTestFailureMessage(
+                    data.message,
+                    data.file,
+                    args.cwd,
+                    projectApps,
+                  ),
+                );
               } else if (
                 exUnitEvent === "test_skipped" ||
                 exUnitEvent === "test_excluded"
@@ -247,6 +271,18 @@ function buildTestCommandArgs(args: RunTestArgs, debug: boolean): string[] {
     result.push(`module:${args.module}`);
   }
 
+  if (args.failed) {
+    result.push("--failed");
+  }
+
+  if (args.stale) {
+    result.push("--stale");
+  }
+
+  if (args.tagFilter) {
+    result.push(...buildTagFilterArgs(args.tagFilter));
+  }
+
   if (args.doctestLine) {
     result.push("--only");
     result.push(`doctest_line:${args.doctestLine}`);
@@ -266,6 +302,9 @@ function buildTestCommandArgs(args: RunTestArgs, debug: boolean): string[] {
 
   // debug tests in tracing mode to disable timeouts
   const maybeTrace = debug ? ["--trace"] : [];
+  const maybeCover = args.coverage
+    ? ["--cover", "--export-coverage", coverageExportName]
+    : [];
 
-  return [...maybeTrace, ...result, ...COMMON_ARGS];
+  return [...maybeTrace, ...maybeCover, ...result, ...COMMON_ARGS];
 }
@@ -1,16 +1,21 @@
 import * as vscode from "vscode";
 
-function detectConflictingExtension(extensionId: string): void {
-  const extension = vscode.extensions.getExtension(extensionId);
-  if (extension) {
+const conflictingExtensionIds = [
+  "mjmcloug.vscode-elixir",
+  // https://github.com/elixir-lsp/vscode-elixir-ls/issues/34
+  "sammkj.vscode-elixir-formatter",
+];
+
+export function getInstalledConflictingExtensions(): string[] {
+  return conflictingExtensionIds.filter(
+    (extensionId) => vscode.extensions.getExtension(extensionId) !== undefined,
+  );
+}
+
+export function detectConflictingExtensions() {
+  for (const extensionId of getInstalledConflictingExtensions()) {
     vscode.window.showErrorMessage(
       `Warning: ${extensionId} is not compatible with ElixirLS, please uninstall ${extensionId}`,
     );
   }
 }
-
-export function detectConflictingExtensions() {
-  detectConflictingExtension("mjmcloug.vscode-elixir");
-  // https://github.com/elixir-lsp/vscode-elixir-ls/issues/34
-  detectConflictingExtension("sammkj.vscode-elixir-formatter");
-}
@@ -1,12 +1,16 @@
 import type { DebugProtocol } from "@vscode/debugprotocol";
 import * as vscode from "vscode";
-import { buildCommand } from "./executable";
+import { buildCommand, buildEnvironment } from "./executable";
 import {
   type TelemetryEvent,
   preprocessStacktrace,
   preprocessStacktraceInProperties,
   reporter,
 } from "./telemetry";
+import {
+  isWorkspaceTrusted,
+  showRestrictedModeMessage,
+} from "./workspaceTrust";
 
 class DebugAdapterExecutableFactory
   implements vscode.DebugAdapterDescriptorFactory
@@ -45,6 +49,15 @@ class DebugAdapterExecutableFactory
     // assume that cwd is workspace root and `projectDir` will be used to point
     // to the root of mix project e.g. `"projectDir": "${workspaceRoot:foo}"`
 
+    // toolchain and elixirLS.envFile variables are overridden by the launch config env
+    const environment = buildEnvironment(session.workspaceFolder);
+    if (Object.keys(environment).length > 0) {
+      options.env = {
+        ...environment,
+        ...(options.env ?? {}),
+      };
+    }
+
     // for some reason env from launch config is not being passed to executable config
     // by default we need to do that manually
     if (session.configuration.env) {
@@ -59,16 +72,20 @@ class DebugAdapterExecutableFactory
       executable.args,
       options,
     );
+    // environment values may contain credentials
+    const loggedExecutable = options.env
+      ? { ...resultExecutable, options: { ...options, env: "<redacted>" } }
+      : resultExecutable;
 
     if (session.workspaceFolder) {
       console.log(
         `ElixirLS: starting DAP session in workspace folder ${session.workspaceFolder.name} with executable`,
-        resultExecutable,
+        loggedExecutable,
       );
     } else {
       console.log(
         "ElixirLS: starting folderless DAP session with executable",
-        resultExecutable,
+        loggedExecutable,
       );
     }
 
@@ -82,6 +99,22 @@ class DebugAdapterExecutableFactory
   }
 }
 
+// Debug sessions run project code, they are not started in untrusted
+// workspaces. Returning undefined aborts the launch before the debug adapter
+// descriptor is requested.
+class DebugConfigurationProvider implements vscode.DebugConfigurationProvider {
+  public resolveDebugConfiguration(
+    _folder: vscode.WorkspaceFolder | undefined,
+    debugConfiguration: vscode.DebugConfiguration,
+  ): vscode.ProviderResult<vscode.DebugConfiguration> {
+    if (!isWorkspaceTrusted()) {
+      void showRestrictedModeMessage("Debugging");
+      return undefined;
+    }
+    return debugConfiguration;
+  }
+}
+
 export interface DebuggeeExited {
   sessionId: string;
   code: number;
@@ -270,6 +303,13 @@ export function configureDebugger(context: vscode.ExtensionContext) {
     vscode.debug.registerDebugAdapterDescriptorFactory("mix_task", factory),
   );
 
+  context.subscriptions.push(
+    vscode.debug.registerDebugConfigurationProvider(
+      "mix_task",
+      new DebugConfigurationProvider(),
+    ),
+  );
+
   trackerFactory = new DebugAdapterTrackerFactory(context);
 
   context.subscriptions.push(
@@ -1,9 +1,6 @@
 import * as vscode from "vscode";
-import {
-  type ExecuteCommandParams,
-  ExecuteCommandRequest,
-  type LanguageClient,
-} from "vscode-languageclient/node";
+import type { LanguageClient } from "vscode-languageclient/node";
+import { executeServerCommand } from "./serverCommands";
 
 interface IParameters {
   symbol: string;
@@ -33,29 +30,11 @@ export class DefinitionTool implements vscode.LanguageModelTool<IParameters> {
     const { symbol } = options.input;
 
     try {
-      // Find the llmDefinition command from server capabilities
-      const command =
-        this.client.initializeResult?.capabilities.executeCommandProvider?.commands.find(
-          (c) => c.startsWith("llmDefinition:"),
-        );
-
-      if (!command) {
-        return new vscode.LanguageModelToolResult([
-          new vscode.LanguageModelTextPart(
-            "ElixirLS language server is not ready or does not support the llmDefinition command",
-          ),
-        ]);
-      }
-
-      const params: ExecuteCommandParams = {
-        command: command,
-        arguments: [symbol],
-      };
-
-      const result = await this.client.sendRequest<IDefinitionResult>(
-        ExecuteCommandRequest.method,
-        params,
-        token,
+      const result = await executeServerCommand<IDefinitionResult>(
+        this.client,
+        "llmDefinition",
+        [symbol],
+        { token },
       );
 
       if (result?.error) {
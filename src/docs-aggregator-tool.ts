@@ -1,9 +1,6 @@
 import * as vscode from "vscode";
-import {
-  type ExecuteCommandParams,
-  ExecuteCommandRequest,
-  type LanguageClient,
-} from "vscode-languageclient/node";
+import type { LanguageClient } from "vscode-languageclient/node";
+import { executeServerCommand } from "./serverCommands";
 
 interface IParameters {
   modules: string[];
@@ -30,26 +27,7 @@ export class DocsAggregatorTool
     const { modules } = options.input;
 
     try {
-      // Find the llmDocsAggregator command from server capabilities
-      const command =
-        this.client.initializeResult?.capabilities.executeCommandProvider?.commands.find(
-          (c) => c.startsWith("llmDocsAggregator:"),
-        );
-
-      if (!command) {
-        return new vscode.LanguageModelToolResult([
-          new vscode.LanguageModelTextPart(
-            "ElixirLS language server is not ready or does not support the llmDocsAggregator command",
-          ),
-        ]);
-      }
-
-      const params: ExecuteCommandParams = {
-        command: command,
-        arguments: [modules],
-      };
-
-      const result = await this.client.sendRequest<{
+      const result = await executeServerCommand<{
         results?: Array<{
           // Module documentation fields
           module?: string;
@@ -75,7 +53,7 @@ export class DocsAggregatorTool
           error?: string;
         }>;
         error?: string;
-      }>(ExecuteCommandRequest.method, params, token);
+      }>(this.client, "llmDocsAggregator", [modules], { token });
 
       if (result?.error) {
         return new vscode.LanguageModelToolResult([
@@ -0,0 +1,237 @@
+import * as fs from "node:fs";
+
+// Minimal highlighter driven by the TextMate grammar contributed by the
+// extension. Only top level `match` and `begin`/`end` rules are applied, nested
+// patterns (e.g. string interpolation) are rendered with the enclosing scope.
+// Good enough for read-only views in webviews where the editor tokenizer is
+// not available.
+
+interface GrammarRule {
+  name?: string;
+  match?: string;
+  begin?: string;
+  end?: string;
+  captures?: Record<string, { name?: string }>;
+}
+
+interface CompiledRule {
+  name?: string;
+  regex: RegExp;
+  end?: string;
+  captures?: Record<string, { name?: string }>;
+}
+
+interface Token {
+  start: number;
+  end: number;
+  scope: string;
+}
+
+// Scope prefixes mapped to CSS classes, the first matching prefix wins
+const scopeClasses: [string, string][] = [
+  ["comment", "comment"],
+  ["string", "string"],
+  ["constant.numeric", "number"],
+  ["constant", "constant"],
+  ["variable.language", "constant"],
+  ["variable.other.constant", "attribute"],
+  ["variable", "variable"],
+  ["keyword", "keyword"],
+  ["meta.module", "keyword"],
+  ["entity.name.type", "type"],
+  ["entity.name.function", "function"],
+  ["meta.function", "function"],
+  ["meta.type", "attribute"],
+];
+
+export const highlightStyles = `
+  .tm-comment { color: var(--vscode-descriptionForeground); font-style: italic; }
+  .tm-string { color: var(--vscode-debugTokenExpression-string); }
+  .tm-number { color: var(--vscode-debugTokenExpression-number); }
+  .tm-constant { color: var(--vscode-debugTokenExpression-boolean); }
+  .tm-attribute { color: var(--vscode-symbolIcon-constantForeground); }
+  .tm-variable { color: var(--vscode-symbolIcon-variableForeground); }
+  .tm-keyword { color: var(--vscode-symbolIcon-keywordForeground); }
+  .tm-type { color: var(--vscode-symbolIcon-classForeground); }
+  .tm-function { color: var(--vscode-symbolIcon-functionForeground); }
+`;
+
+export function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Translates Oniguruma syntax used by the grammar to JavaScript unicode mode,
+// rules that still do not compile are skipped
+function toJsRegExpSource(source: string) {
+  let result = "";
+  let inClass = false;
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (char === "\\") {
+      const next = source[i + 1] ?? "";
+      i++;
+      if (next === "h") {
+        result += inClass ? "0-9a-fA-F" : "[0-9a-fA-F]";
+      } else if (
+        /[A-Za-z0-9\\^$.*+?()[\]{}|/]/.test(next) ||
+        (next === "-" && inClass)
+      ) {
+        result += char + next;
+      } else {
+        // identity escapes are not allowed in unicode mode
+        result += next;
+      }
+    } else if (inClass) {
+      const posixClass = source.slice(i).match(/^\[:(space|digit):\]/);
+      if (posixClass) {
+        result += posixClass[1] === "space" ? "\\s" : "\\d";
+        i += posixClass[0].length - 1;
+      } else {
+        inClass = char !== "]";
+        result += char;
+      }
+    } else if (char === "[") {
+      inClass = true;
+      result += char;
+    } else if (char === "{" || char === "}") {
+      const quantifier = source.slice(i).match(/^\{\d+(,\d*)?\}/);
+      if (quantifier) {
+        result += quantifier[0];
+        i += quantifier[0].length - 1;
+      } else {
+        // literal braces must be escaped in unicode mode
+        result += `\\${char}`;
+      }
+    } else if (source.startsWith("(?>", i)) {
+      // atomic groups are not supported, backtracking is allowed instead
+      result += "(?:";
+      i += 2;
+    } else {
+      result += char;
+    }
+  }
+  return result;
+}
+
+function compile(source: string, flags: string): RegExp | undefined {
+  try {
+    return new RegExp(toJsRegExpSource(source), flags);
+  } catch {
+    return undefined;
+  }
+}
+
+function scopeClass(scope: string | undefined): string | undefined {
+  if (!scope) {
+    return undefined;
+  }
+  return scopeClasses.find(([prefix]) => scope.startsWith(prefix))?.[1];
+}
+
+export class ElixirHighlighter {
+  private rules: CompiledRule[];
+
+  constructor(grammarPath: string) {
+    const grammar = JSON.parse(fs.readFileSync(grammarPath, "utf8")) as {
+      patterns: GrammarRule[];
+    };
+    this.rules = [];
+    for (const rule of grammar.patterns) {
+      const source = rule.match ?? rule.begin;
+      const regex = source && compile(source, "gmud");
+      if (regex) {
+        this.rules.push({
+          name: rule.name,
+          regex,
+          end: rule.begin ? rule.end : undefined,
+          captures: rule.match ? rule.captures : undefined,
+        });
+      }
+    }
+  }
+
+  private tokenize(code: string): Token[] {
+    const tokens: Token[] = [];
+    // next match of every rule at or after the current position
+    const nextMatches: (RegExpExecArray | null | undefined)[] = this.rules.map(
+      () => undefined,
+    );
+
+    let position = 0;
+    while (position < code.length) {
+      let best: { index: number; match: RegExpExecArray } | undefined;
+      for (const [index, rule] of this.rules.entries()) {
+        let match = nextMatches[index];
+        if (match === undefined || (match && match.index < position)) {
+          rule.regex.lastIndex = position;
+          match = rule.regex.exec(code);
+          nextMatches[index] = match;
+        }
+        if (match && (!best || match.index < best.match.index)) {
+          best = { index, match };
+        }
+      }
+      if (!best) {
+        break;
+      }
+
+      const rule = this.rules[best.index];
+      const { match } = best;
+      let end = match.index + match[0].length;
+      if (rule.end !== undefined) {
+        const endRegex = compile(rule.end, "gmu");
+        if (endRegex) {
+          endRegex.lastIndex = end;
+          const endMatch = endRegex.exec(code);
+          end = endMatch ? endMatch.index + endMatch[0].length : code.length;
+        }
+      }
+      if (end === match.index) {
+        // zero length matches do not advance
+        nextMatches[best.index] = undefined;
+        position = match.index + 1;
+        continue;
+      }
+
+      if (rule.name || !rule.captures) {
+        tokens.push({ start: match.index, end, scope: rule.name ?? "" });
+      } else {
+        // match indices are requested with the `d` flag
+        const { indices: groupIndices } = match as RegExpExecArray & {
+          indices?: [number, number][];
+        };
+        let captureEnd = match.index;
+        for (const [group, capture] of Object.entries(rule.captures)) {
+          const indices = groupIndices?.[Number(group)];
+          if (indices && capture.name && indices[0] >= captureEnd) {
+            tokens.push({
+              start: indices[0],
+              end: indices[1],
+              scope: capture.name,
+            });
+            captureEnd = indices[1];
+          }
+        }
+      }
+      position = end;
+    }
+    return tokens;
+  }
+
+  public highlight(code: string): string {
+    let html = "";
+    let position = 0;
+    for (const token of this.tokenize(code)) {
+      html += escapeHtml(code.slice(position, token.start));
+      const text = escapeHtml(code.slice(token.start, token.end));
+      const className = scopeClass(token.scope);
+      html += className ? `<span class="tm-${className}">${text}</span>` : text;
+      position = token.end;
+    }
+    return html + escapeHtml(code.slice(position));
+  }
+}
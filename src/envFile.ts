@@ -0,0 +1,201 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as vscode from "vscode";
+import type { LanguageClientManager } from "./languageClientManager";
+import { getSelectedToolchain, getToolchainEnv } from "./toolchain";
+
+type Env = Record<string, string>;
+
+const assignmentRegex = /^(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.*)$/;
+
+function interpolate(value: string, env: Env, baseEnv: NodeJS.ProcessEnv) {
+  return value.replace(
+    /\$(?:\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}|([A-Za-z_][A-Za-z0-9_]*))/g,
+    (_match, braced: string, fallback: string | undefined, bare: string) => {
+      const name = braced ?? bare;
+      const resolved = env[name] ?? baseEnv[name];
+      return resolved || (fallback ?? "");
+    },
+  );
+}
+
+// Parses a dotenv-style file. `export` prefixes used in .envrc are accepted,
+// `${VAR}`, `${VAR:-default}` and `$VAR` references are resolved against the
+// variables defined earlier in the file and the base environment. Single quoted
+// values are taken literally. Other lines, e.g. direnv stdlib calls, are skipped.
+export function parseEnvFile(
+  contents: string,
+  baseEnv: NodeJS.ProcessEnv = process.env,
+): Env {
+  const env: Env = {};
+  for (const [index, rawLine] of contents.split(/\r?\n/).entries()) {
+    const line = rawLine.trim();
+    if (line === "" || line.startsWith("#")) {
+      continue;
+    }
+
+    const match = line.match(assignmentRegex);
+    if (!match) {
+      // the line is not logged, it may contain credentials
+      console.log(`ElixirLS: skipping unsupported env file line ${index + 1}`);
+      continue;
+    }
+
+    const [, name, rawValue] = match;
+    if (rawValue.startsWith("'")) {
+      const end = rawValue.indexOf("'", 1);
+      env[name] = rawValue.slice(1, end === -1 ? undefined : end);
+    } else if (rawValue.startsWith('"')) {
+      const quoted = rawValue.match(/^"((?:[^"\\]|\\.)*)"/)?.[1] ?? "";
+      env[name] = interpolate(
+        quoted.replace(/\\n/g, "\n").replace(/\\(["\\])/g, "$1"),
+        env,
+        baseEnv,
+      );
+    } else {
+      // strip trailing comments from unquoted values
+      env[name] = interpolate(
+        rawValue.replace(/\s+#.*$/, "").trim(),
+        env,
+        baseEnv,
+      );
+    }
+  }
+  return env;
+}
+
+export function getEnvFilePath(
+  workspaceFolder: vscode.WorkspaceFolder | undefined,
+): string | undefined {
+  const envFile = vscode.workspace
+    .getConfiguration("elixirLS", workspaceFolder)
+    .get<string>("envFile");
+  if (!envFile) {
+    return undefined;
+  }
+  if (path.isAbsolute(envFile) || !workspaceFolder) {
+    return envFile;
+  }
+  return path.join(workspaceFolder.uri.fsPath, envFile);
+}
+
+// Variables from the workspace folder env file, empty when none is configured
+export function loadEnvFile(
+  workspaceFolder: vscode.WorkspaceFolder | undefined,
+  baseEnv: NodeJS.ProcessEnv = process.env,
+): Env {
+  const envFilePath = getEnvFilePath(workspaceFolder);
+  if (!envFilePath) {
+    return {};
+  }
+  try {
+    return parseEnvFile(fs.readFileSync(envFilePath, "utf8"), baseEnv);
+  } catch (e) {
+    console.warn(`ElixirLS: unable to read env file ${envFilePath}: ${e}`);
+    return {};
+  }
+}
+
+function formatEnv(env: Env | Record<string, unknown>): string[] {
+  return Object.keys(env)
+    .sort()
+    .map((name) => `${name}=${JSON.stringify(String(env[name]))}`);
+}
+
+async function showEnvironment() {
+  const folders = vscode.workspace.workspaceFolders ?? [];
+  let folder: vscode.WorkspaceFolder | undefined = folders[0];
+  if (folders.length > 1) {
+    folder = await vscode.window.showWorkspaceFolderPick({
+      placeHolder: "Select workspace folder",
+    });
+    if (!folder) {
+      return;
+    }
+  }
+
+  const envFilePath = getEnvFilePath(folder);
+  const envVariables =
+    vscode.workspace
+      .getConfiguration("elixirLS", folder)
+      .get<Record<string, unknown>>("envVariables") ?? {};
+  const toolchainEnv = getToolchainEnv(folder);
+  const lines = [
+    `# ElixirLS environment for ${folder?.name ?? "files outside workspace"}`,
+    "",
+    `# Toolchain: ${getSelectedToolchain(folder)?.label ?? "PATH"}`,
+    ...formatEnv(toolchainEnv),
+    "",
+    envFilePath
+      ? `# Loaded from ${envFilePath} for the language server, debugger and Mix tasks`
+      : "# No elixirLS.envFile configured",
+    ...formatEnv(loadEnvFile(folder, { ...process.env, ...toolchainEnv })),
+    "",
+    "# elixirLS.envVariables set by the language server for builds",
+    ...formatEnv(envVariables),
+  ];
+
+  const document = await vscode.workspace.openTextDocument({
+    language: "properties",
+    content: lines.join("\n"),
+  });
+  await vscode.window.showTextDocument(document);
+}
+
+export function configureEnvFile(
+  context: vscode.ExtensionContext,
+  languageClientManager: LanguageClientManager,
+) {
+  let watchers: vscode.Disposable[] = [];
+  const watchEnvFiles = () => {
+    for (const watcher of watchers) {
+      watcher.dispose();
+    }
+    watchers = [];
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+      const envFilePath = getEnvFilePath(folder);
+      if (!envFilePath) {
+        continue;
+      }
+      const watcher = vscode.workspace.createFileSystemWatcher(
+        new vscode.RelativePattern(
+          path.dirname(envFilePath),
+          path.basename(envFilePath),
+        ),
+      );
+      const handleChange = () =>
+        languageClientManager.handleDidChangeEnvironment(
+          folder,
+          "environment file changed",
+          context,
+        );
+      watchers.push(
+        watcher,
+        watcher.onDidCreate(handleChange),
+        watcher.onDidChange(handleChange),
+        watcher.onDidDelete(handleChange),
+      );
+    }
+  };
+  watchEnvFiles();
+
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeWorkspaceFolders(watchEnvFiles),
+    vscode.workspace.onDidChangeConfiguration((event) => {
+      if (event.affectsConfiguration("elixirLS.envFile")) {
+        watchEnvFiles();
+      }
+    }),
+    {
+      dispose: () => {
+        for (const watcher of watchers) {
+          watcher.dispose();
+        }
+      },
+    },
+    vscode.commands.registerCommand(
+      "extension.showEnvironment",
+      showEnvironment,
+    ),
+  );
+}
@@ -1,9 +1,6 @@
 import * as vscode from "vscode";
-import {
-  type ExecuteCommandParams,
-  ExecuteCommandRequest,
-  type LanguageClient,
-} from "vscode-languageclient/node";
+import type { LanguageClient } from "vscode-languageclient/node";
+import { executeServerCommand } from "./serverCommands";
 
 interface IParameters {
   location: string;
@@ -67,29 +64,11 @@ export class EnvironmentTool implements vscode.LanguageModelTool<IParameters> {
     const { location } = options.input;
 
     try {
-      // Find the llmEnvironment command from server capabilities
-      const command =
-        this.client.initializeResult?.capabilities.executeCommandProvider?.commands.find(
-          (c) => c.startsWith("llmEnvironment:"),
-        );
-
-      if (!command) {
-        return new vscode.LanguageModelToolResult([
-          new vscode.LanguageModelTextPart(
-            "ElixirLS language server is not ready or does not support the llmEnvironment command",
-          ),
-        ]);
-      }
-
-      const params: ExecuteCommandParams = {
-        command: command,
-        arguments: [location],
-      };
-
-      const result = await this.client.sendRequest<IEnvironmentResult>(
-        ExecuteCommandRequest.method,
-        params,
-        token,
+      const result = await executeServerCommand<IEnvironmentResult>(
+        this.client,
+        "llmEnvironment",
+        [location],
+        { token },
       );
 
       if (result?.error) {
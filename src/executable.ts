@@ -1,6 +1,8 @@
 import * as os from "node:os";
 import * as path from "node:path";
 import * as vscode from "vscode";
+import { loadEnvFile } from "./envFile";
+import { getToolchainEnv } from "./toolchain";
 
 const platformCommand = (command: Kind) =>
   command + (os.platform() === "win32" ? ".bat" : ".sh");
@@ -27,3 +29,16 @@ export function buildCommand(
     ? path.join(lsOverridePath, command)
     : context.asAbsolutePath(dir + command);
 }
+
+// Variables set for processes started for the workspace folder: the selected
+// toolchain and elixirLS.envFile, the env file takes precedence and can
+// reference toolchain variables
+export function buildEnvironment(
+  workspaceFolder: vscode.WorkspaceFolder | undefined,
+): Record<string, string> {
+  const toolchainEnv = getToolchainEnv(workspaceFolder);
+  return {
+    ...toolchainEnv,
+    ...loadEnvFile(workspaceFolder, { ...process.env, ...toolchainEnv }),
+  };
+}
@@ -0,0 +1,255 @@
+import * as crypto from "node:crypto";
+import * as vscode from "vscode";
+import {
+  ElixirHighlighter,
+  escapeHtml,
+  highlightStyles,
+} from "./elixirHighlighter";
+
+// Line diffs are computed with LCS, larger inputs are not diffed
+const maxDiffCells = 4 * 1000 * 1000;
+
+export interface MacroExpansion {
+  // expanded code
+  source: string;
+  // stage name to expansion, in the order returned by the server
+  stages: Record<string, string>;
+}
+
+type DiffLine = { kind: "same" | "added" | "removed"; text: string };
+
+function diffLines(before: string, after: string): DiffLine[] | undefined {
+  const a = before.split("\n");
+  const b = after.split("\n");
+  if (a.length * b.length > maxDiffCells) {
+    return undefined;
+  }
+
+  // lengths of common subsequences of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0),
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i] === b[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ kind: "same", text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ kind: "removed", text: a[i++] });
+    } else {
+      lines.push({ kind: "added", text: b[j++] });
+    }
+  }
+  for (; i < a.length; i++) {
+    lines.push({ kind: "removed", text: a[i] });
+  }
+  for (; j < b.length; j++) {
+    lines.push({ kind: "added", text: b[j] });
+  }
+  return lines;
+}
+
+const diffMarkers = { same: " ", added: "+", removed: "-" };
+
+export class ExpandMacroPanel {
+  private static current: ExpandMacroPanel | undefined;
+  private static highlighter: ElixirHighlighter | undefined;
+
+  private _followSelection = false;
+  private expansion: MacroExpansion | undefined;
+
+  private constructor(
+    private panel: vscode.WebviewPanel,
+    private highlighter: ElixirHighlighter,
+  ) {
+    panel.onDidDispose(() => {
+      if (ExpandMacroPanel.current === this) {
+        ExpandMacroPanel.current = undefined;
+      }
+    });
+    panel.webview.onDidReceiveMessage(
+      (message: { command: string; stage?: string; value?: boolean }) => {
+        if (message.command === "copy" && message.stage) {
+          const code = this.expansion?.stages[message.stage];
+          if (code !== undefined) {
+            void vscode.env.clipboard.writeText(code);
+            vscode.window.showInformationMessage(
+              `Copied ${message.stage} expansion to clipboard`,
+            );
+          }
+        } else if (message.command === "follow") {
+          this._followSelection = message.value === true;
+        }
+      },
+    );
+  }
+
+  // Panel following the editor selection, if any
+  public static get following(): ExpandMacroPanel | undefined {
+    return ExpandMacroPanel.current?._followSelection
+      ? ExpandMacroPanel.current
+      : undefined;
+  }
+
+  // Shows the expansion in the existing panel or creates a new one
+  public static show(
+    context: vscode.ExtensionContext,
+    expansion: MacroExpansion,
+  ) {
+    if (!ExpandMacroPanel.current) {
+      ExpandMacroPanel.highlighter ??= new ElixirHighlighter(
+        context.asAbsolutePath("syntaxes/elixir.json"),
+      );
+      const panel = vscode.window.createWebviewPanel(
+        "expandMacro",
+        "Expand macro",
+        { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true },
+        { enableScripts: true, retainContextWhenHidden: true },
+      );
+      ExpandMacroPanel.current = new ExpandMacroPanel(
+        panel,
+        ExpandMacroPanel.highlighter,
+      );
+    } else {
+      ExpandMacroPanel.current.panel.reveal(undefined, true);
+    }
+    ExpandMacroPanel.current.update(expansion);
+  }
+
+  public static dispose() {
+    ExpandMacroPanel.current?.panel.dispose();
+  }
+
+  public update(expansion: MacroExpansion) {
+    this.expansion = expansion;
+    const firstLine = expansion.source.trim().split("\n")[0];
+    this.panel.title = `Expand macro: ${
+      firstLine.length > 40 ? `${firstLine.slice(0, 40)}…` : firstLine
+    }`;
+    this.panel.webview.html = this.getHtml(expansion);
+  }
+
+  private renderDiff(before: string, after: string) {
+    const lines = diffLines(before, after);
+    if (!lines) {
+      return '<p class="note">Expansion is too large to diff</p>';
+    }
+    return `<pre class="code">${lines
+      .map(
+        (line) =>
+          `<div class="diff-${line.kind}">${diffMarkers[line.kind]} ${this.highlighter.highlight(
+            line.text,
+          )}</div>`,
+      )
+      .join("")}</pre>`;
+  }
+
+  private getHtml(expansion: MacroExpansion) {
+    const nonce = crypto.randomBytes(16).toString("base64");
+    const stages = Object.entries(expansion.stages);
+    const tabs = stages
+      .map(
+        ([stage], index) =>
+          `<button class="tab" data-stage="${index}">${escapeHtml(stage)}</button>`,
+      )
+      .join("");
+    const sections = stages
+      .map(([stage, code], index) => {
+        const previous = index > 0 ? stages[index - 1] : undefined;
+        return `<section class="stage" data-stage="${index}">
+        <div class="toolbar">
+          <button class="copy" data-name="${escapeHtml(stage)}">Copy as code</button>
+          ${
+            previous
+              ? `<label><input type="checkbox" class="diff-toggle"> Diff with ${escapeHtml(
+                  previous[0],
+                )}</label>`
+              : ""
+          }
+        </div>
+        <pre class="code plain">${this.highlighter.highlight(code)}</pre>
+        ${previous ? `<div class="diff">${this.renderDiff(previous[1], code)}</div>` : ""}
+      </section>`;
+      })
+      .join("\n");
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Expand macro result</title>
+    <style>
+      ${highlightStyles}
+      .code { font-family: var(--vscode-editor-font-family); font-size: var(--vscode-editor-font-size); white-space: pre-wrap; }
+      .tabs { display: flex; gap: 4px; margin: 8px 0; border-bottom: 1px solid var(--vscode-panel-border); }
+      .tab { background: none; color: var(--vscode-foreground); border: none; padding: 4px 8px; cursor: pointer; }
+      .tab.active { border-bottom: 2px solid var(--vscode-focusBorder); }
+      .stage { display: none; }
+      .stage.active { display: block; }
+      .stage .diff { display: none; }
+      .stage.show-diff .diff { display: block; }
+      .stage.show-diff .plain { display: none; }
+      .toolbar { display: flex; gap: 12px; align-items: center; }
+      .diff-added { background: var(--vscode-diffEditor-insertedLineBackground); }
+      .diff-removed { background: var(--vscode-diffEditor-removedLineBackground); }
+      .note { color: var(--vscode-descriptionForeground); }
+    </style>
+</head>
+<body>
+  <label><input type="checkbox" id="follow"${
+    this._followSelection ? " checked" : ""
+  }> Follow editor selection</label>
+  <pre class="code">${this.highlighter.highlight(expansion.source)}</pre>
+  <nav class="tabs">${tabs}</nav>
+  ${sections}
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const state = vscode.getState() ?? { stage: 0, diff: {} };
+    const select = (index) => {
+      document.querySelectorAll(".tab, .stage").forEach((element) => {
+        element.classList.toggle("active", element.dataset.stage === String(index));
+      });
+      state.stage = index;
+      vscode.setState(state);
+    };
+    document.querySelectorAll(".tab").forEach((tab) => {
+      tab.addEventListener("click", () => select(tab.dataset.stage));
+    });
+    document.querySelectorAll(".stage").forEach((stage) => {
+      const toggle = stage.querySelector(".diff-toggle");
+      if (toggle) {
+        toggle.checked = state.diff[stage.dataset.stage] === true;
+        stage.classList.toggle("show-diff", toggle.checked);
+        toggle.addEventListener("change", () => {
+          stage.classList.toggle("show-diff", toggle.checked);
+          state.diff[stage.dataset.stage] = toggle.checked;
+          vscode.setState(state);
+        });
+      }
+      stage.querySelector(".copy").addEventListener("click", (event) => {
+        vscode.postMessage({ command: "copy", stage: event.target.dataset.name });
+      });
+    });
+    document.getElementById("follow").addEventListener("change", (event) => {
+      vscode.postMessage({ command: "follow", value: event.target.checked });
+    });
+    select(document.querySelector('.tab[data-stage="' + state.stage + '"]') ? state.stage : 0);
+  </script>
+</body>
+</html>`;
+  }
+}
@@ -1,15 +1,25 @@
 import * as vscode from "vscode";
 
+import { type ElixirLSApiV1, createApiV1, latestApiVersion } from "./api";
+import { configureClientStatus } from "./clientStatus";
 import { configureCommands } from "./commands";
 import { detectConflictingExtensions } from "./conflictingExtensions";
 import { configureDebugger } from "./debugAdapter";
 import { DefinitionTool } from "./definition-tool";
 import { DocsAggregatorTool } from "./docs-aggregator-tool";
+import { configureEnvFile } from "./envFile";
 import { EnvironmentTool } from "./environment-tool";
 import { ImplementationFinderTool } from "./implementation-finder-tool";
 import { LanguageClientManager } from "./languageClientManager";
+import { configureLspLatency } from "./lspLatency";
+import { configureLspTrafficInspector } from "./lspTrafficInspector";
+import { configureMixProjectsView } from "./mixProjectsView";
 import { ModuleDependenciesTool } from "./module-dependencies-tool";
 import { WorkspaceTracker } from "./project";
+import {
+  checkStartup,
+  configureStartupDiagnostics,
+} from "./startupDiagnostics";
 import { TaskProvider } from "./taskProvider";
 import { configureTelemetry, reporter } from "./telemetry";
 import { configureTerminalLinkProvider } from "./terminalLinkProvider";
@@ -17,14 +27,18 @@ import {
   configureTestController,
   handleWorkspaceFolderRemoved as handleTestControllerWorkspaceFolderRemoved,
 } from "./testController";
-import { testElixir } from "./testElixir";
+import { configureToolchain, onDidChangeToolchain } from "./toolchain";
 import { TypeInfoTool } from "./type-info-tool";
+import { isWorkspaceTrusted } from "./workspaceTrust";
 
 console.log("ElixirLS: Loading extension");
 
 export interface ElixirLS {
   workspaceTracker: WorkspaceTracker;
   languageClientManager: LanguageClientManager;
+  apiVersion: number;
+  // throws for API versions not supported by this extension version
+  getApi(version: 1): ElixirLSApiV1;
 }
 
 export const workspaceTracker = new WorkspaceTracker();
@@ -39,7 +53,9 @@ const startClientsForOpenDocuments = (context: vscode.ExtensionContext) => {
   });
 };
 
-export function activate(context: vscode.ExtensionContext): ElixirLS {
+export async function activate(
+  context: vscode.ExtensionContext,
+): Promise<ElixirLS> {
   console.log("ElixirLS: activating extension in mode", workspaceTracker.mode);
   console.log(
     "ElixirLS: Workspace folders are",
@@ -66,14 +82,55 @@ export function activate(context: vscode.ExtensionContext): ElixirLS {
     }),
   );
 
-  testElixir(context);
+  // nested Mix projects are discovered again and mix.exs files are read again
+  // when a mix.exs changes
+  const mixProjectsWatcher =
+    vscode.workspace.createFileSystemWatcher("**/mix.exs");
+  context.subscriptions.push(
+    mixProjectsWatcher,
+    mixProjectsWatcher.onDidCreate(() =>
+      workspaceTracker.handleDidChangeMixProjects(),
+    ),
+    mixProjectsWatcher.onDidChange(() =>
+      workspaceTracker.handleDidChangeMixProjects(),
+    ),
+    mixProjectsWatcher.onDidDelete(() =>
+      workspaceTracker.handleDidChangeMixProjects(),
+    ),
+  );
+
+  if (isWorkspaceTrusted()) {
+    void checkStartup(context, vscode.workspace.workspaceFolders?.[0]);
+  } else {
+    console.log(
+      "ElixirLS: workspace is not trusted, language servers are disabled",
+    );
+  }
 
   detectConflictingExtensions();
 
-  configureCommands(context, languageClientManager);
+  configureCommands(context, languageClientManager, workspaceTracker);
+  configureClientStatus(context, languageClientManager);
+  configureStartupDiagnostics(context);
+  configureLspTrafficInspector(context);
+  configureLspLatency(context);
+  configureMixProjectsView(context, workspaceTracker);
+  configureEnvFile(context, languageClientManager);
+  configureToolchain(context, languageClientManager);
+  context.subscriptions.push(
+    onDidChangeToolchain((folder) => checkStartup(context, folder)),
+  );
   configureDebugger(context);
-  configureTerminalLinkProvider(context);
-  configureTestController(context, languageClientManager, workspaceTracker);
+  configureTerminalLinkProvider(context, workspaceTracker);
+  const testController = configureTestController(
+    context,
+    languageClientManager,
+    workspaceTracker,
+  );
+
+  // documents are routed to servers of nested Mix projects, they need to be
+  // discovered before clients are started
+  await workspaceTracker.handleDidChangeMixProjects();
 
   context.subscriptions.push(
     vscode.workspace.onDidOpenTextDocument((value) => {
@@ -83,6 +140,18 @@ export function activate(context: vscode.ExtensionContext): ElixirLS {
 
   startClientsForOpenDocuments(context);
 
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration((event) =>
+      languageClientManager.handleDidChangeConfiguration(event, context),
+    ),
+  );
+
+  const idleCheckTimer = setInterval(
+    () => languageClientManager.suspendIdleClients(),
+    60 * 1000,
+  );
+  context.subscriptions.push({ dispose: () => clearInterval(idleCheckTimer) });
+
   // Register language model tool for all clients
   const registerLanguageModelTool = async () => {
     const clientPromises = languageClientManager.allClientsPromises();
@@ -148,6 +217,15 @@ export function activate(context: vscode.ExtensionContext): ElixirLS {
   // Register tool for existing clients
   registerLanguageModelTool();
 
+  context.subscriptions.push(
+    vscode.workspace.onDidGrantWorkspaceTrust(() => {
+      console.log("ElixirLS: workspace trusted, starting language servers");
+      void checkStartup(context, vscode.workspace.workspaceFolders?.[0]);
+      startClientsForOpenDocuments(context);
+      setTimeout(registerLanguageModelTool, 1000);
+    }),
+  );
+
   // Register tool when new clients are added
   context.subscriptions.push(
     vscode.workspace.onDidOpenTextDocument((_doc) => {
@@ -162,6 +240,8 @@ export function activate(context: vscode.ExtensionContext): ElixirLS {
         await languageClientManager.handleWorkspaceFolderRemoved(folder);
         handleTestControllerWorkspaceFolderRemoved(folder);
       }
+      // documents are routed by nested Mix projects of the new folders
+      await workspaceTracker.handleDidChangeMixProjects();
       // we might have closed client for some nested workspace folder child
       // reopen all needed
       startClientsForOpenDocuments(context);
@@ -173,14 +253,28 @@ export function activate(context: vscode.ExtensionContext): ElixirLS {
   context.subscriptions.push(
     vscode.tasks.registerTaskProvider(
       TaskProvider.TaskType,
-      new TaskProvider(),
+      new TaskProvider(workspaceTracker),
     ),
   );
 
+  const apiV1 = createApiV1(
+    context,
+    languageClientManager,
+    workspaceTracker,
+    testController,
+  );
+
   console.log("ElixirLS: extension activated");
   return {
     languageClientManager,
     workspaceTracker,
+    apiVersion: latestApiVersion,
+    getApi: (version: number) => {
+      if (version === 1) {
+        return apiV1;
+      }
+      throw new Error(`ElixirLS: API version ${version} is not supported`);
+    },
   };
 }
 
@@ -1,9 +1,6 @@
 import * as vscode from "vscode";
-import {
-  type ExecuteCommandParams,
-  ExecuteCommandRequest,
-  type LanguageClient,
-} from "vscode-languageclient/node";
+import type { LanguageClient } from "vscode-languageclient/node";
+import { executeServerCommand } from "./serverCommands";
 
 interface IParameters {
   symbol: string;
@@ -39,29 +36,10 @@ export class ImplementationFinderTool
     const { symbol } = options.input;
 
     try {
-      // Find the llmImplementationFinder command from server capabilities
-      const command =
-        this.client.initializeResult?.capabilities.executeCommandProvider?.commands.find(
-          (c) => c.startsWith("llmImplementationFinder:"),
-        );
-
-      if (!command) {
-        return new vscode.LanguageModelToolResult([
-          new vscode.LanguageModelTextPart(
-            "ElixirLS language server is not ready or does not support the llmImplementationFinder command",
-          ),
-        ]);
-      }
-
-      const params: ExecuteCommandParams = {
-        command: command,
-        arguments: [symbol],
-      };
-
-      const result = await this.client.sendRequest<{
+      const result = await executeServerCommand<{
         implementations?: IImplementationResult[];
         error?: string;
-      }>(ExecuteCommandRequest.method, params, token);
+      }>(this.client, "llmImplementationFinder", [symbol], { token });
 
       if (result?.error) {
         return new vscode.LanguageModelToolResult([
@@ -1,20 +1,38 @@
+import * as net from "node:net";
 import * as vscode from "vscode";
 import {
+  CloseAction,
+  type CloseHandlerResult,
   type Disposable,
   type DocumentSelector,
+  ErrorAction,
+  type ErrorHandler,
   type Executable,
   LanguageClient,
   type LanguageClientOptions,
+  type MessageSignature,
+  type Middleware,
   RevealOutputChannelOn,
   type ServerOptions,
+  State,
+  type StreamInfo,
 } from "vscode-languageclient/node";
-import { buildCommand } from "./executable";
-import { WorkspaceMode, type WorkspaceTracker } from "./project";
+import { buildCommand, buildEnvironment } from "./executable";
+import { lspLatencyMetrics } from "./lspLatency";
+import { lspTrafficRecorder } from "./lspTrafficInspector";
+import {
+  WorkspaceMode,
+  type WorkspaceTracker,
+  getClientLabel,
+} from "./project";
+import { serverLogRecorder } from "./serverLog";
 import {
   type TelemetryEvent,
   preprocessStacktraceInProperties,
   reporter,
 } from "./telemetry";
+import { registerApplyWorkspaceEditHandler } from "./workspaceEditCapture";
+import { isWorkspaceTrusted } from "./workspaceTrust";
 
 // Languages fully handled by this extension
 const languageIds = ["elixir", "eex", "html-eex", "phoenix-heex"];
@@ -41,6 +59,43 @@ const untitledDocumentSelector = languageIds.map((language) => ({
 const patternDocumentSelector = (pattern: string) =>
   languageIds.map((language) => ({ language, scheme: "file", pattern }));
 
+// Changing these settings requires a server restart
+const restartSettings = ["mixEnv", "mixTarget", "projectDir", "envVariables"];
+// Server options are built when the client is created, changing these
+// requires creating a new client
+const serverOptionsSettings = [
+  "envFile",
+  "languageServerOverridePath",
+  "languageServerAddress",
+];
+// These settings may change which outermost workspace folder serves a document
+const routingSettings = [
+  "useCurrentRootFolderAsProjectDir",
+  "projectDir",
+  "discoverNestedProjects",
+];
+
+// Nested Mix project servers are rooted at the project, projectDir setting of the
+// enclosing workspace folder does not apply to them
+const nestedProjectMiddleware: Middleware = {
+  workspace: {
+    configuration: async (params, token, next) => {
+      const result = await next(params, token);
+      if (!Array.isArray(result)) {
+        return result;
+      }
+      return result.map((settings, i) =>
+        params.items[i]?.section === "elixirLS" && settings
+          ? { ...settings, projectDir: "" }
+          : settings,
+      );
+    },
+  },
+};
+
+// clientsStats key of the default client, workspace folder clients are keyed by uri
+const defaultClientStatsKey = "default";
+
 // Options to control the language client
 const clientOptions: LanguageClientOptions = {
   // Register the server for Elixir documents
@@ -50,31 +105,188 @@ const clientOptions: LanguageClientOptions = {
   revealOutputChannelOn: RevealOutputChannelOn.Never,
 };
 
-function startClient(
+// Crashed servers are restarted with exponential backoff. If a server crashes
+// too often in a short period it is considered to be in a crash loop and is
+// not restarted until the user asks for it.
+const crashRestartBaseDelay = 1000;
+const crashRestartMaxDelay = 60 * 1000;
+const crashLoopWindow = 3 * 60 * 1000;
+const crashLoopMaxCrashes = 5;
+
+interface ClientStats {
+  runningSince: number | undefined;
+  restartCount: number;
+  crashes: number[];
+  crashLoop: boolean;
+  pendingRestart: NodeJS.Timeout | undefined;
+  // last time a document handled by the client was open
+  lastActive: number;
+  // resolves when the client of a suspended server has stopped
+  suspendPromise: Promise<void> | undefined;
+}
+
+export interface ClientStateChangeEvent {
+  key: string | undefined;
+  client: LanguageClient;
+  state: State;
+}
+
+export interface ClientStatus {
+  // workspace folder uri, undefined for the default client
+  key: string | undefined;
+  client: LanguageClient;
+  state: State;
+  runningSince: number | undefined;
+  restartCount: number;
+  crashLoop: boolean;
+  suspended: boolean;
+}
+
+// Parses `host:port` or `port` as TCP address, anything else is treated as
+// a Unix socket path (or a named pipe on Windows)
+export function parseServerAddress(address: string): net.NetConnectOpts {
+  const match = address.match(/^(?:(.*):)?(\d+)$/);
+  if (match) {
+    return {
+      host: match[1]?.replace(/^\[(.*)\]$/, "$1") || "localhost",
+      port: Number(match[2]),
+    };
+  }
+  return { path: address };
+}
+
+// Time to wait for an already running server to accept the connection
+const serverConnectTimeout = 10000;
+
+function socketServerOptions(address: string): ServerOptions {
+  return () =>
+    new Promise<StreamInfo>((resolve, reject) => {
+      const socket = net.connect(parseServerAddress(address));
+      const fail = (message: string) => {
+        socket.destroy();
+        console.warn(`ElixirLS: ${message}`);
+        reject(new Error(message));
+      };
+      socket.setTimeout(serverConnectTimeout, () =>
+        fail(
+          `connecting to language server at ${address} timed out after ${serverConnectTimeout}ms`,
+        ),
+      );
+      socket.once("error", (error) =>
+        fail(
+          `unable to connect to language server at ${address}: ${error.message}`,
+        ),
+      );
+      socket.once("connect", () => {
+        // the client handles errors of the established connection
+        socket.setTimeout(0);
+        socket.removeAllListeners("timeout");
+        socket.removeAllListeners("error");
+        resolve({ reader: socket, writer: socket });
+      });
+    });
+}
+
+function buildServerOptions(
   context: vscode.ExtensionContext,
-  clientOptions: LanguageClientOptions,
-): [LanguageClient, Promise<LanguageClient>, Disposable[]] {
+  workspaceFolder: vscode.WorkspaceFolder | undefined,
+): ServerOptions {
+  const serverAddress = vscode.workspace
+    .getConfiguration("elixirLS", workspaceFolder)
+    .get<string>("languageServerAddress");
+
+  if (serverAddress) {
+    // connect to an already running server instead of spawning one
+    return socketServerOptions(serverAddress);
+  }
+
+  const environment = buildEnvironment(workspaceFolder);
+  if (Object.keys(environment).length > 0) {
+    // values may contain credentials, only variable names are logged
+    console.log(
+      `ElixirLS: language server environment for ${
+        workspaceFolder?.uri.fsPath ?? "default client"
+      } sets`,
+      Object.keys(environment),
+    );
+  }
   const serverOpts: Executable = {
-    command: `"${buildCommand(
-      context,
-      "language_server",
-      clientOptions.workspaceFolder,
-    )}"`,
-    options: { shell: true },
+    command: `"${buildCommand(context, "language_server", workspaceFolder)}"`,
+    options:
+      Object.keys(environment).length > 0
+        ? { shell: true, env: { ...process.env, ...environment } }
+        : { shell: true },
   };
 
   // If the extension is launched in debug mode then the `debug` server options are used instead of `run`
   // currently we pass the same options regardless of the mode
-  const serverOptions: ServerOptions = {
+  return {
     run: serverOpts,
     debug: serverOpts,
   };
+}
+
+// Server options as logged, environment values may contain credentials
+function redactServerOptions(serverOptions: ServerOptions): unknown {
+  if (typeof serverOptions === "function" || !("run" in serverOptions)) {
+    return serverOptions;
+  }
+  // buildServerOptions only spawns executables
+  const redact = (executable: Executable) =>
+    executable.options?.env
+      ? { ...executable, options: { ...executable.options, env: "<redacted>" } }
+      : executable;
+  return {
+    run: redact(serverOptions.run as Executable),
+    debug: redact(serverOptions.debug as Executable),
+  };
+}
+
+// Chains general request and notification middleware, the first one in the list
+// sees the request first
+function chainMiddleware(middlewares: Middleware[]): Middleware {
+  return {
+    sendRequest: (type, param, token, next) =>
+      middlewares.reduceRight<typeof next>(
+        (chained, middleware) =>
+          middleware.sendRequest
+            ? (type, param, token) =>
+                // biome-ignore lint/style/noNonNullAssertion: checked above
+                middleware.sendRequest!(type, param, token, chained)
+            : chained,
+        next,
+      )(type, param, token),
+    sendNotification: <R>(
+      type: string | MessageSignature,
+      next: (type: string | MessageSignature, params?: R) => Promise<void>,
+      params: R,
+    ) =>
+      middlewares.reduceRight<typeof next>(
+        (chained, middleware) =>
+          middleware.sendNotification
+            ? (type, params) =>
+                // biome-ignore lint/style/noNonNullAssertion: checked above
+                middleware.sendNotification!(type, chained, params as R)
+            : chained,
+        next,
+      )(type, params),
+  };
+}
+
+function startClient(
+  context: vscode.ExtensionContext,
+  clientOptions: LanguageClientOptions,
+): [LanguageClient, Promise<LanguageClient>, Disposable[]] {
+  const serverOptions = buildServerOptions(
+    context,
+    clientOptions.workspaceFolder,
+  );
 
   let displayName: string;
   if (clientOptions.workspaceFolder) {
     console.log(
       `ElixirLS: starting LSP client for ${clientOptions.workspaceFolder.uri.fsPath} with server options`,
-      serverOptions,
+      redactServerOptions(serverOptions),
       "client options",
       clientOptions,
     );
@@ -85,7 +297,7 @@ function startClient(
   } else {
     console.log(
       "ElixirLS: starting default LSP client with server options",
-      serverOptions,
+      redactServerOptions(serverOptions),
       "client options",
       clientOptions,
     );
@@ -95,16 +307,37 @@ function startClient(
     });
   }
 
+  const outputChannel = serverLogRecorder.createOutputChannel(
+    clientOptions.workspaceFolder?.uri.toString(),
+    displayName,
+  );
   const client = new LanguageClient(
     "elixirLS", // langId
     displayName, // display name
     serverOptions,
-    clientOptions,
+    {
+      ...clientOptions,
+      outputChannel,
+      middleware: {
+        ...clientOptions.middleware,
+        ...chainMiddleware([
+          lspLatencyMetrics.middleware(
+            clientOptions.workspaceFolder?.uri.toString(),
+          ),
+          lspTrafficRecorder.middleware(
+            clientOptions.workspaceFolder?.uri.toString(),
+          ),
+        ]),
+      },
+    },
   );
 
-  const clientDisposables: Disposable[] = [];
+  // the client does not dispose output channels it did not create
+  const clientDisposables: Disposable[] = [outputChannel];
 
   clientDisposables.push(
+    registerApplyWorkspaceEditHandler(client),
+    lspTrafficRecorder.registerLogMessageHandler(client),
     client.onTelemetry((event: TelemetryEvent) => {
       if (event.name.endsWith("_error")) {
         reporter.sendTelemetryErrorEvent(
@@ -170,6 +403,10 @@ function startClient(
   return [client, clientPromise, clientDisposables];
 }
 
+// Server options of the default client are read when it is created, changing
+// them requires recreating the client
+type DefaultClientChange = "none" | "restart" | "recreate";
+
 export class LanguageClientManager {
   defaultClient: LanguageClient | null = null;
   defaultClientPromise: Promise<LanguageClient> | null = null;
@@ -177,10 +414,19 @@ export class LanguageClientManager {
   clients: Map<string, LanguageClient> = new Map();
   clientsPromises: Map<string, Promise<LanguageClient>> = new Map();
   private clientsDisposables: Map<string, Disposable[]> = new Map();
+  private clientsStats: Map<string, ClientStats> = new Map();
+  // document uri -> key of the client serving it
+  // used to detect routing changes caused by configuration changes
+  private documentsRouting: Map<string, string> = new Map();
   private _onDidChange = new vscode.EventEmitter<void>();
   get onDidChange(): vscode.Event<void> {
     return this._onDidChange.event;
   }
+  private _onDidChangeClientState =
+    new vscode.EventEmitter<ClientStateChangeEvent>();
+  get onDidChangeClientState(): vscode.Event<ClientStateChangeEvent> {
+    return this._onDidChangeClientState.event;
+  }
   private _workspaceTracker: WorkspaceTracker;
 
   constructor(workspaceTracker: WorkspaceTracker) {
@@ -201,8 +447,11 @@ export class LanguageClientManager {
     return result;
   }
 
+  // Promises of clients with a started server, suspended servers are skipped
   public allClientsPromises(): Promise<LanguageClient>[] {
-    const result = [...this.clientsPromises.values()];
+    const result = [...this.clientsPromises.entries()]
+      .filter(([key]) => !this.getStats(key).suspendPromise)
+      .map(([, clientPromise]) => clientPromise);
 
     if (this.defaultClientPromise) {
       result.push(this.defaultClientPromise);
@@ -212,101 +461,329 @@ export class LanguageClientManager {
   }
 
   public restart() {
-    const restartPromise = async (
-      client: LanguageClient,
-      isDefault: boolean,
-      key?: string | undefined,
-    ) =>
-      new Promise<LanguageClient>((resolve, reject) => {
-        reporter.sendTelemetryEvent("language_client_restarting", {
-          "elixir_ls.language_client_mode": !isDefault
-            ? "workspaceFolder"
-            : "default",
-        });
-        const startTime = performance.now();
-        client
-          .restart()
-          .then(() => {
-            const elapsed = performance.now() - startTime;
-            reporter.sendTelemetryEvent(
-              "language_client_started",
-              {
-                "elixir_ls.language_client_mode": !isDefault
-                  ? "workspaceFolder"
-                  : "default",
-              },
-              { "elixir_ls.language_client_activation_time": elapsed },
-            );
-            if (!isDefault) {
-              console.log(`ElixirLS: started LSP client for ${key}`);
-            } else {
-              console.log("ElixirLS: started default LSP client");
-            }
-            resolve(client);
-          })
-          .catch((e) => {
-            reporter.sendTelemetryErrorEvent("language_client_restart_error", {
+    for (const key of this.clients.keys()) {
+      this.restartClient(key);
+    }
+    if (this.defaultClient) {
+      this.restartClient(undefined);
+    }
+  }
+
+  public restartClient(key: string | undefined) {
+    const isDefault = key === undefined;
+    const client = isDefault ? this.defaultClient : this.clients.get(key);
+    if (!client) {
+      return;
+    }
+
+    const stats = this.getStats(key);
+    if (key && stats.suspendPromise) {
+      // restarting a suspended server is the same as waking it up
+      this.resumeClient(key);
+      return;
+    }
+    clearTimeout(stats.pendingRestart);
+    stats.pendingRestart = undefined;
+    if (stats.crashLoop) {
+      // the user asked for a restart, give the server a fresh crash budget
+      stats.crashes = [];
+      stats.crashLoop = false;
+    }
+    stats.restartCount++;
+
+    if (!isDefault) {
+      console.log(`ElixirLS: restarting LSP client for ${key}`);
+    } else {
+      console.log("ElixirLS: restarting default LSP client");
+    }
+
+    const restartPromise = new Promise<LanguageClient>((resolve, reject) => {
+      reporter.sendTelemetryEvent("language_client_restarting", {
+        "elixir_ls.language_client_mode": !isDefault
+          ? "workspaceFolder"
+          : "default",
+      });
+      const startTime = performance.now();
+      // a crashed client is already stopped and cannot be stopped again
+      const operation =
+        client.state === State.Stopped ? client.start() : client.restart();
+      operation
+        .then(() => {
+          const elapsed = performance.now() - startTime;
+          reporter.sendTelemetryEvent(
+            "language_client_started",
+            {
               "elixir_ls.language_client_mode": !isDefault
                 ? "workspaceFolder"
                 : "default",
-              "elixir_ls.language_client_start_error": String(e),
-              "elixir_ls.language_client_start_error_stack": e?.stack ?? "",
-            });
-            if (!isDefault) {
-              console.error(
-                `ElixirLS: failed to start LSP client for ${key}: ${e}`,
-              );
-            } else {
-              console.error(
-                `ElixirLS: failed to start default LSP client: ${e}`,
-              );
-            }
-            reject(e);
+            },
+            { "elixir_ls.language_client_activation_time": elapsed },
+          );
+          if (!isDefault) {
+            console.log(`ElixirLS: started LSP client for ${key}`);
+          } else {
+            console.log("ElixirLS: started default LSP client");
+          }
+          resolve(client);
+        })
+        .catch((e) => {
+          reporter.sendTelemetryErrorEvent("language_client_restart_error", {
+            "elixir_ls.language_client_mode": !isDefault
+              ? "workspaceFolder"
+              : "default",
+            "elixir_ls.language_client_start_error": String(e),
+            "elixir_ls.language_client_start_error_stack": e?.stack ?? "",
           });
-      });
+          if (!isDefault) {
+            console.error(
+              `ElixirLS: failed to start LSP client for ${key}: ${e}`,
+            );
+          } else {
+            console.error(`ElixirLS: failed to start default LSP client: ${e}`);
+          }
+          reject(e);
+        });
+    });
 
-    for (const [key, client] of this.clients) {
-      console.log(`ElixirLS: restarting LSP client for ${key}`);
-      this.clientsPromises.set(key, restartPromise(client, false, key));
+    if (!isDefault) {
+      this.clientsPromises.set(key, restartPromise);
+    } else {
+      this.defaultClientPromise = restartPromise;
     }
+  }
+
+  public getClientStatuses(): ClientStatus[] {
+    const entries: [string | undefined, LanguageClient][] = [
+      ...this.clients.entries(),
+    ];
     if (this.defaultClient) {
-      console.log("ElixirLS: restarting default LSP client");
-      this.defaultClientPromise = restartPromise(this.defaultClient, true);
+      entries.push([undefined, this.defaultClient]);
     }
+
+    return entries.map(([key, client]) => {
+      const stats = this.getStats(key);
+      return {
+        key,
+        client,
+        state: client.state,
+        runningSince: stats.runningSince,
+        restartCount: stats.restartCount,
+        crashLoop: stats.crashLoop,
+        suspended: stats.suspendPromise !== undefined,
+      };
+    });
   }
 
-  public getClientByUri(uri: vscode.Uri): LanguageClient {
-    // Files outside of workspace go to default client when no directory is open
-    // otherwise they go to first workspace
-    // (even if we pass undefined in clientOptions vs will pass first workspace as rootUri/rootPath)
-    let folder = vscode.workspace.getWorkspaceFolder(uri);
-    if (!folder) {
+  private getStats(key: string | undefined): ClientStats {
+    const statsKey = key ?? defaultClientStatsKey;
+    let stats = this.clientsStats.get(statsKey);
+    if (!stats) {
+      stats = {
+        runningSince: undefined,
+        restartCount: 0,
+        crashes: [],
+        crashLoop: false,
+        pendingRestart: undefined,
+        lastActive: Date.now(),
+        suspendPromise: undefined,
+      };
+      this.clientsStats.set(statsKey, stats);
+    }
+    return stats;
+  }
+
+  private deleteStats(key: string | undefined) {
+    const statsKey = key ?? defaultClientStatsKey;
+    clearTimeout(this.clientsStats.get(statsKey)?.pendingRestart);
+    this.clientsStats.delete(statsKey);
+  }
+
+  private createErrorHandler(key: string | undefined): ErrorHandler {
+    return {
+      // same as the vscode-languageclient default error handler
+      error: (_error, _message, count) => ({
+        action:
+          count && count <= 3 ? ErrorAction.Continue : ErrorAction.Shutdown,
+      }),
+      closed: () => this.handleClientCrashed(key),
+    };
+  }
+
+  private handleClientCrashed(key: string | undefined): CloseHandlerResult {
+    const stats = this.getStats(key);
+    const now = Date.now();
+    stats.crashes = stats.crashes.filter(
+      (crashTime) => now - crashTime < crashLoopWindow,
+    );
+    stats.crashes.push(now);
+
+    const name = key ? vscode.Uri.parse(key).fsPath : "default";
+
+    reporter.sendTelemetryErrorEvent("language_client_crashed", {
+      "elixir_ls.language_client_mode": key ? "workspaceFolder" : "default",
+    });
+
+    if (stats.crashes.length > crashLoopMaxCrashes) {
+      stats.crashLoop = true;
+      console.error(
+        `ElixirLS: LSP client for ${name} crashed ${stats.crashes.length} times in the last ${crashLoopWindow / 60000} minutes, not restarting`,
+      );
+      vscode.window
+        .showErrorMessage(
+          `ElixirLS server for ${name} keeps crashing and will not be restarted automatically. Check the ElixirLS output for details.`,
+          "Restart",
+        )
+        .then((selection) => {
+          if (selection === "Restart") {
+            this.restartClient(key);
+          }
+        });
+      return {
+        action: CloseAction.DoNotRestart,
+        message: `The ElixirLS server crashed ${stats.crashes.length} times in the last ${crashLoopWindow / 60000} minutes. The server will not be restarted.`,
+      };
+    }
+
+    const delay = Math.min(
+      crashRestartBaseDelay * 2 ** (stats.crashes.length - 1),
+      crashRestartMaxDelay,
+    );
+    console.warn(
+      `ElixirLS: LSP client for ${name} crashed, restarting in ${delay}ms`,
+    );
+    clearTimeout(stats.pendingRestart);
+    stats.pendingRestart = setTimeout(() => {
+      stats.pendingRestart = undefined;
+      this.restartClient(key);
+    }, delay);
+
+    return {
+      action: CloseAction.DoNotRestart,
+      message: `The ElixirLS server crashed. It will be restarted in ${delay / 1000}s.`,
+      handled: true,
+    };
+  }
+
+  private trackClient(key: string | undefined, client: LanguageClient) {
+    return client.onDidChangeState(({ newState }) => {
+      const stats = this.getStats(key);
+      if (newState === State.Running) {
+        stats.runningSince = Date.now();
+      } else {
+        stats.runningSince = undefined;
+      }
+      this._onDidChangeClientState.fire({ key, client, state: newState });
+    });
+  }
+
+  // Stops servers of workspace folders that have had no open documents for longer
+  // than the configured idle timeout. Suspended servers are started again on demand
+  // when a document is opened, the server is restarted or a command needs it.
+  public suspendIdleClients() {
+    const now = Date.now();
+    const activeKeys = new Set<string>();
+    for (const document of vscode.workspace.textDocuments) {
+      if (!activationLanguageIds.includes(document.languageId)) {
+        continue;
+      }
+      const folder =
+        vscode.workspace.getWorkspaceFolder(document.uri) ??
+        vscode.workspace.workspaceFolders?.[0];
+      if (folder) {
+        activeKeys.add(
+          this._workspaceTracker
+            .getClientFolder(folder, document.uri)
+            .uri.toString(),
+        );
+      }
+    }
+
+    for (const [key, client] of this.clients) {
+      const stats = this.getStats(key);
+      if (activeKeys.has(key)) {
+        stats.lastActive = now;
+        continue;
+      }
+
+      const idleTimeout = vscode.workspace
+        .getConfiguration("elixirLS", vscode.Uri.parse(key))
+        .get<number>("idleServerTimeout", 0);
       if (
-        vscode.workspace.workspaceFolders &&
-        vscode.workspace.workspaceFolders.length !== 0
+        idleTimeout > 0 &&
+        now - stats.lastActive > idleTimeout * 60 * 1000 &&
+        !stats.suspendPromise &&
+        client.state === State.Running
       ) {
-        // untitled: and file: outside workspace folders assigned to first workspace
-        folder = vscode.workspace.workspaceFolders[0];
-      } else {
-        // no workspace folders - use default client
-        if (this.defaultClient) {
-          return this.defaultClient;
-        }
-        throw "default client LSP not started";
+        this.suspendClient(key, client, stats);
       }
     }
+  }
 
-    // If we have nested workspace folders we only start a server on the outer most workspace folder.
-    folder = this._workspaceTracker.getOuterMostWorkspaceFolder(folder);
+  private suspendClient(
+    key: string,
+    client: LanguageClient,
+    stats: ClientStats,
+  ) {
+    console.log(`ElixirLS: suspending idle LSP client for ${key}`);
+    reporter.sendTelemetryEvent("language_client_suspending");
 
-    const client = this.clients.get(folder.uri.toString());
-    if (client) {
-      return client;
+    // need to await - stopping a starting client crashes
+    // biome-ignore lint/style/noNonNullAssertion: a promise exists for every started client
+    const clientPromise = this.clientsPromises.get(key)!;
+    stats.suspendPromise = clientPromise
+      .then(() => client.stop())
+      .catch((e) => {
+        console.warn(`ElixirLS: error during LSP client suspend for ${key}`, e);
+      });
+    this._onDidChange.fire();
+  }
+
+  // Starts a suspended server again and returns the client promise, the
+  // default client is never suspended
+  public resumeClient(
+    key: string | undefined,
+  ): Promise<LanguageClient> | undefined {
+    if (key === undefined) {
+      return this.defaultClientPromise ?? undefined;
+    }
+    const client = this.clients.get(key);
+    const stats = this.getStats(key);
+    const suspendPromise = stats.suspendPromise;
+    if (!client || !suspendPromise) {
+      return this.clientsPromises.get(key);
     }
-    throw `LSP client for ${folder.uri.toString()} not started`;
+
+    console.log(`ElixirLS: resuming suspended LSP client for ${key}`);
+    reporter.sendTelemetryEvent("language_client_resuming");
+
+    stats.suspendPromise = undefined;
+    stats.lastActive = Date.now();
+    const resumePromise = suspendPromise
+      .then(() => client.start())
+      .then(() => {
+        console.log(`ElixirLS: resumed LSP client for ${key}`);
+        return client;
+      });
+    // the promise may not be awaited until a document is opened, failures are
+    // handled as crashes of a running server
+    resumePromise.catch((reason) => {
+      reporter.sendTelemetryErrorEvent("language_client_start_error", {
+        "elixir_ls.language_client_mode": "workspaceFolder",
+        "elixir_ls.language_client_start_error": String(reason),
+        "elixir_ls.language_client_start_error_stack": reason?.stack ?? "",
+      });
+      console.error(
+        `ElixirLS: failed to resume LSP client for ${key}: ${reason}`,
+      );
+      this.handleClientCrashed(key);
+    });
+    this.clientsPromises.set(key, resumePromise);
+    this._onDidChange.fire();
+    return resumePromise;
   }
 
-  public getClientPromiseByUri(uri: vscode.Uri): Promise<LanguageClient> {
+  // Key of the client serving the uri, undefined for the default client
+  private getClientKeyByUri(uri: vscode.Uri): string | undefined {
     // Files outside of workspace go to default client when no directory is open
     // otherwise they go to first workspace
     // (even if we pass undefined in clientOptions vs will pass first workspace as rootUri/rootPath)
@@ -319,17 +796,56 @@ export class LanguageClientManager {
         // untitled: and file: outside workspace folders assigned to first workspace
         folder = vscode.workspace.workspaceFolders[0];
       } else {
-        // no folders - use default client
-        // biome-ignore lint/style/noNonNullAssertion: a default client is always started when no workspace folders exist
-        return this.defaultClientPromise!;
+        // no workspace folders - use default client
+        return undefined;
       }
     }
 
-    // If we have nested workspace folders we only start a server on the outer most workspace folder.
-    folder = this._workspaceTracker.getOuterMostWorkspaceFolder(folder);
+    // If we have nested workspace folders we only start a server on the outer most workspace folder
+    // or the nested Mix project containing the uri
+    return this._workspaceTracker.getClientFolder(folder, uri).uri.toString();
+  }
 
-    // biome-ignore lint/style/noNonNullAssertion: the client promise is set when the workspace folder's client is started
-    return this.clientsPromises.get(folder.uri.toString())!;
+  // Lookups do not wake suspended servers, use resumeClientByUri before
+  // sending requests to the server
+  public getClientByUri(uri: vscode.Uri): LanguageClient {
+    const key = this.getClientKeyByUri(uri);
+    if (key === undefined) {
+      if (this.defaultClient) {
+        return this.defaultClient;
+      }
+      throw "default client LSP not started";
+    }
+
+    const client = this.clients.get(key);
+    if (client) {
+      return client;
+    }
+    throw `LSP client for ${key} not started`;
+  }
+
+  // Undefined until a document served by the client is opened
+  public getClientPromiseByUri(
+    uri: vscode.Uri,
+  ): Promise<LanguageClient> | undefined {
+    const key = this.getClientKeyByUri(uri);
+    if (key === undefined) {
+      return this.defaultClientPromise ?? undefined;
+    }
+    return this.clientsPromises.get(key);
+  }
+
+  // Starts the server of the uri again if it was suspended due to inactivity
+  // and returns the client promise. Used for requests made on behalf of the
+  // user, e.g. server commands.
+  public resumeClientByUri(
+    uri: vscode.Uri,
+  ): Promise<LanguageClient> | undefined {
+    const key = this.getClientKeyByUri(uri);
+    if (key !== undefined) {
+      this.resumeClient(key);
+    }
+    return this.getClientPromiseByUri(uri);
   }
 
   public getClientByDocument(
@@ -351,7 +867,18 @@ export class LanguageClientManager {
       return null;
     }
 
-    return this.getClientPromiseByUri(document.uri);
+    return this.getClientPromiseByUri(document.uri) ?? null;
+  }
+
+  public resumeClientByDocument(
+    document: vscode.TextDocument,
+  ): Promise<LanguageClient> | null {
+    // We are only interested in elixir files
+    if (document.languageId !== "elixir") {
+      return null;
+    }
+
+    return this.resumeClientByUri(document.uri) ?? null;
   }
 
   public handleDidOpenTextDocument(
@@ -363,6 +890,12 @@ export class LanguageClientManager {
       return;
     }
 
+    // the language server compiles project code, clients are started
+    // for open documents once the workspace is trusted
+    if (!isWorkspaceTrusted()) {
+      return;
+    }
+
     const uri = document.uri;
     let folder = vscode.workspace.getWorkspaceFolder(uri);
 
@@ -388,7 +921,13 @@ export class LanguageClientManager {
             this.defaultClient,
             this.defaultClientPromise,
             this.defaultClientDisposables,
-          ] = startClient(context, clientOptions);
+          ] = startClient(context, {
+            ...clientOptions,
+            errorHandler: this.createErrorHandler(undefined),
+          });
+          this.defaultClientDisposables.push(
+            this.trackClient(undefined, this.defaultClient),
+          );
           this._onDidChange.fire();
         }
         return;
@@ -396,12 +935,34 @@ export class LanguageClientManager {
     }
 
     // If we have nested workspace folders we only start a server on the outer most workspace folder.
-    folder = this._workspaceTracker.getOuterMostWorkspaceFolder(folder);
+    const outermostFolder =
+      this._workspaceTracker.getOuterMostWorkspaceFolder(folder);
+    // Workspace folders without mix.exs may contain multiple Mix projects, each gets its own server
+    folder = this._workspaceTracker.getClientFolder(folder, uri);
+    const isNestedProject =
+      folder.uri.toString() !== outermostFolder.uri.toString();
 
-    if (!this.clients.has(folder.uri.toString())) {
+    if (
+      !isNestedProject &&
+      this._workspaceTracker.getNestedMixProjects(outermostFolder).length > 0
+    ) {
+      // documents outside of nested Mix projects are not served, a server started in
+      // the workspace folder would have no Mix project and overlap with nested ones
+      return;
+    }
+    this.documentsRouting.set(uri.toString(), folder.uri.toString());
+
+    if (this.clients.has(folder.uri.toString())) {
+      // wake up the server if it was suspended due to inactivity
+      this.resumeClient(folder.uri.toString());
+    } else {
       // The document selector will be assigned based on workspace mode
       let documentSelector: DocumentSelector = defaultDocumentSelector;
-      if (this._workspaceTracker.mode === WorkspaceMode.MULTI_ROOT) {
+      if (isNestedProject) {
+        // nested Mix project
+        // servers of sibling projects must not get requests from this one
+        documentSelector = patternDocumentSelector(`${folder.uri.fsPath}/**/*`);
+      } else if (this._workspaceTracker.mode === WorkspaceMode.MULTI_ROOT) {
         // multi-root workspace
         // create document selector with glob pattern that will match files
         // in that directory
@@ -427,17 +988,21 @@ export class LanguageClientManager {
         throw "this should not happen";
       }
 
+      const key = folder.uri.toString();
       const workspaceClientOptions: LanguageClientOptions = {
         ...clientOptions,
         // the client will iterate through this list and chose the first matching element
         documentSelector: documentSelector,
         workspaceFolder: folder,
+        errorHandler: this.createErrorHandler(key),
+        middleware: isNestedProject ? nestedProjectMiddleware : undefined,
       };
 
       const [client, clientPromise, clientDisposables] = startClient(
         context,
         workspaceClientOptions,
       );
+      clientDisposables.push(this.trackClient(key, client));
       this.clients.set(folder.uri.toString(), client);
       this.clientsPromises.set(folder.uri.toString(), clientPromise);
       this.clientsDisposables.set(folder.uri.toString(), clientDisposables);
@@ -445,6 +1010,178 @@ export class LanguageClientManager {
     }
   }
 
+  public async handleDidChangeConfiguration(
+    event: vscode.ConfigurationChangeEvent,
+    context: vscode.ExtensionContext,
+  ) {
+    // clients that need to be recreated with new server options or document selectors
+    const toRecreate = new Set<string>();
+    // clients that only need to restart the server
+    const toRestart = new Set<string>();
+
+    if (
+      routingSettings.some((setting) =>
+        event.affectsConfiguration(`elixirLS.${setting}`),
+      )
+    ) {
+      await this._workspaceTracker.handleDidChangeMixProjects();
+      for (const [documentUri, clientKey] of this.documentsRouting) {
+        const uri = vscode.Uri.parse(documentUri);
+        const folder =
+          vscode.workspace.getWorkspaceFolder(uri) ??
+          vscode.workspace.workspaceFolders?.[0];
+        if (
+          !folder ||
+          this._workspaceTracker.getClientFolder(folder, uri).uri.toString() !==
+            clientKey
+        ) {
+          toRecreate.add(clientKey);
+        }
+      }
+    }
+
+    for (const key of this.clients.keys()) {
+      const folderUri = vscode.Uri.parse(key);
+      if (
+        serverOptionsSettings.some((setting) =>
+          event.affectsConfiguration(`elixirLS.${setting}`, folderUri),
+        )
+      ) {
+        toRecreate.add(key);
+      } else if (
+        restartSettings.some((setting) =>
+          event.affectsConfiguration(`elixirLS.${setting}`, folderUri),
+        )
+      ) {
+        toRestart.add(key);
+      }
+    }
+    let defaultClientChange: DefaultClientChange = "none";
+    if (this.defaultClient !== null) {
+      if (
+        serverOptionsSettings.some((setting) =>
+          event.affectsConfiguration(`elixirLS.${setting}`),
+        )
+      ) {
+        defaultClientChange = "recreate";
+      } else if (
+        restartSettings.some((setting) =>
+          event.affectsConfiguration(`elixirLS.${setting}`),
+        )
+      ) {
+        defaultClientChange = "restart";
+      }
+    }
+
+    for (const key of toRecreate) {
+      toRestart.delete(key);
+    }
+    if (
+      toRecreate.size === 0 &&
+      toRestart.size === 0 &&
+      defaultClientChange === "none"
+    ) {
+      return;
+    }
+
+    await this.restartChangedClients(
+      "settings changed",
+      toRecreate,
+      toRestart,
+      defaultClientChange,
+      context,
+    );
+  }
+
+  // Restarts clients after their environment changed
+  public async handleDidChangeEnvironment(
+    folder: vscode.WorkspaceFolder,
+    reason: string,
+    context: vscode.ExtensionContext,
+  ) {
+    const folderUri = folder.uri.toString();
+    // environment is read when server options are built, clients need recreating
+    const toRecreate = new Set(
+      [...this.clients.keys()].filter(
+        (key) => key === folderUri || key.startsWith(`${folderUri}/`),
+      ),
+    );
+    if (toRecreate.size === 0) {
+      return;
+    }
+    await this.restartChangedClients(
+      reason,
+      toRecreate,
+      new Set(),
+      "none",
+      context,
+    );
+  }
+
+  private async restartChangedClients(
+    reason: string,
+    toRecreate: Set<string>,
+    toRestart: Set<string>,
+    defaultClientChange: DefaultClientChange,
+    context: vscode.ExtensionContext,
+  ) {
+    const mode = vscode.workspace
+      .getConfiguration("elixirLS")
+      .get<string>("restartOnConfigurationChange", "prompt");
+    if (mode === "off") {
+      return;
+    }
+
+    if (mode === "prompt") {
+      const names = [...toRecreate, ...toRestart].map((key) =>
+        getClientLabel(key),
+      );
+      if (defaultClientChange !== "none") {
+        names.push("(default)");
+      }
+      const selection = await vscode.window.showInformationMessage(
+        `ElixirLS ${reason}. Restart language server for ${names.join(", ")}?`,
+        "Restart",
+        "Always restart",
+      );
+      if (!selection) {
+        return;
+      }
+      if (selection === "Always restart") {
+        await vscode.workspace
+          .getConfiguration("elixirLS")
+          .update(
+            "restartOnConfigurationChange",
+            "auto",
+            vscode.ConfigurationTarget.Global,
+          );
+      }
+    }
+
+    reporter.sendTelemetryEvent("language_client_configuration_restart", {
+      "elixir_ls.restart_on_configuration_change": mode,
+    });
+
+    for (const key of toRestart) {
+      this.restartClient(key);
+    }
+    if (defaultClientChange === "restart") {
+      this.restartClient(undefined);
+    }
+    if (toRecreate.size > 0 || defaultClientChange === "recreate") {
+      await Promise.all([
+        ...[...toRecreate].map((key) => this.stopClient(key)),
+        ...(defaultClientChange === "recreate"
+          ? [this.stopDefaultClient()]
+          : []),
+      ]);
+      // start clients again with new settings and folder routing
+      for (const document of vscode.workspace.textDocuments) {
+        this.handleDidOpenTextDocument(document, context);
+      }
+    }
+  }
+
   public async deactivate() {
     const clientStartPromises: Promise<unknown>[] = [];
     const clientsToDispose: LanguageClient[] = [];
@@ -458,6 +1195,7 @@ export class LanguageClientManager {
       this.defaultClient = null;
       this.defaultClientPromise = null;
       this.defaultClientDisposables = null;
+      this.deleteStats(undefined);
       changed = true;
     }
 
@@ -467,12 +1205,14 @@ export class LanguageClientManager {
       // biome-ignore lint/style/noNonNullAssertion: a promise exists for every started client
       clientStartPromises.push(this.clientsPromises.get(uri)!);
       clientsToDispose.push(client);
+      this.deleteStats(uri);
       changed = true;
     }
 
     this.clients.clear();
     this.clientsPromises.clear();
     this.clientsDisposables.clear();
+    this.documentsRouting.clear();
 
     if (changed) {
       this._onDidChange.fire();
@@ -494,10 +1234,16 @@ export class LanguageClientManager {
   }
 
   public async handleWorkspaceFolderRemoved(folder: vscode.WorkspaceFolder) {
-    const uri = folder.uri.toString();
+    await this.stopClient(folder.uri.toString());
+  }
+
+  private async stopClient(uri: string) {
     const client = this.clients.get(uri);
     if (client) {
-      console.log("ElixirLS: Stopping LSP client for", folder.uri.fsPath);
+      console.log(
+        "ElixirLS: Stopping LSP client for",
+        vscode.Uri.parse(uri).fsPath,
+      );
       // biome-ignore lint/complexity/noForEach: disposing all registered disposables is easier with forEach
       this.clientsDisposables.get(uri)?.forEach((d) => d.dispose());
       // biome-ignore lint/style/noNonNullAssertion: a promise exists for every started client
@@ -505,36 +1251,68 @@ export class LanguageClientManager {
 
       this.clients.delete(uri);
       this.clientsPromises.delete(uri);
+      this.clientsDisposables.delete(uri);
+      this.deleteStats(uri);
+      for (const [documentUri, clientKey] of this.documentsRouting) {
+        if (clientKey === uri) {
+          this.documentsRouting.delete(documentUri);
+        }
+      }
 
       this._onDidChange.fire();
 
-      // need to await - disposing or stopping a starting client crashes
-      // in vscode-languageclient 8.1.0
-      // https://github.com/microsoft/vscode-languageserver-node/blob/d859bb14d1bcb3923eecaf0ef587e55c48502ccc/client/src/common/client.ts#L1311
-      try {
-        await clientPromise;
-      } catch (e) {
-        console.warn(
-          "ElixirLS: error during wait for stoppable LSP client state",
-          e,
-        );
-        reporter.sendTelemetryErrorEvent("language_client_stop_error", {
-          "elixir_ls.language_client_stop_error": String(e),
-          // biome-ignore lint/suspicious/noExplicitAny: error may not be typed, cast to access stack trace
-          "elixir_ls.language_client_stop_error_stack": (<any>e)?.stack ?? "",
-        });
-      }
-      try {
-        // dispose can timeout
-        await client.dispose();
-      } catch (e) {
-        console.warn("ElixirLS: error during LSP client dispose", e);
-        reporter.sendTelemetryErrorEvent("language_client_stop_error", {
-          "elixir_ls.language_client_stop_error": String(e),
-          // biome-ignore lint/suspicious/noExplicitAny: error may not be typed, cast to access stack trace
-          "elixir_ls.language_client_stop_error_stack": (<any>e)?.stack ?? "",
-        });
-      }
+      await this.disposeClient(client, clientPromise);
+    }
+  }
+
+  private async stopDefaultClient() {
+    const client = this.defaultClient;
+    const clientPromise = this.defaultClientPromise;
+    if (!client || !clientPromise) {
+      return;
+    }
+    console.log("ElixirLS: Stopping default LSP client");
+    // biome-ignore lint/complexity/noForEach: disposing all registered disposables is easier with forEach
+    this.defaultClientDisposables?.forEach((d) => d.dispose());
+    this.defaultClient = null;
+    this.defaultClientPromise = null;
+    this.defaultClientDisposables = null;
+    this.deleteStats(undefined);
+    this._onDidChange.fire();
+
+    await this.disposeClient(client, clientPromise);
+  }
+
+  private async disposeClient(
+    client: LanguageClient,
+    clientPromise: Promise<LanguageClient>,
+  ) {
+    // need to await - disposing or stopping a starting client crashes
+    // in vscode-languageclient 8.1.0
+    // https://github.com/microsoft/vscode-languageserver-node/blob/d859bb14d1bcb3923eecaf0ef587e55c48502ccc/client/src/common/client.ts#L1311
+    try {
+      await clientPromise;
+    } catch (e) {
+      console.warn(
+        "ElixirLS: error during wait for stoppable LSP client state",
+        e,
+      );
+      reporter.sendTelemetryErrorEvent("language_client_stop_error", {
+        "elixir_ls.language_client_stop_error": String(e),
+        // biome-ignore lint/suspicious/noExplicitAny: error may not be typed, cast to access stack trace
+        "elixir_ls.language_client_stop_error_stack": (<any>e)?.stack ?? "",
+      });
+    }
+    try {
+      // dispose can timeout
+      await client.dispose();
+    } catch (e) {
+      console.warn("ElixirLS: error during LSP client dispose", e);
+      reporter.sendTelemetryErrorEvent("language_client_stop_error", {
+        "elixir_ls.language_client_stop_error": String(e),
+        // biome-ignore lint/suspicious/noExplicitAny: error may not be typed, cast to access stack trace
+        "elixir_ls.language_client_stop_error_stack": (<any>e)?.stack ?? "",
+      });
     }
   }
 }
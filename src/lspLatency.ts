@@ -0,0 +1,182 @@
+import * as vscode from "vscode";
+import type { Middleware } from "vscode-languageclient/node";
+import { getMethodName } from "./lspTrafficInspector";
+import { getClientLabel } from "./project";
+
+// Percentiles are computed over a rolling window of the most recent requests
+const windowSize = 200;
+
+// Methods summarized in the status bar tooltip
+const summaryMethods = [
+  "textDocument/completion",
+  "textDocument/hover",
+  "textDocument/definition",
+];
+
+export interface LatencySummary {
+  method: string;
+  count: number;
+  errors: number;
+  p50: number;
+  p95: number;
+  p99: number;
+}
+
+interface MethodSamples {
+  durations: number[];
+  count: number;
+  errors: number;
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) {
+    return 0;
+  }
+  const rank = Math.ceil((p / 100) * sorted.length) - 1;
+  return sorted[Math.min(Math.max(rank, 0), sorted.length - 1)];
+}
+
+class LspLatencyMetrics {
+  private samples: Map<string | undefined, Map<string, MethodSamples>> =
+    new Map();
+
+  private record(
+    clientKey: string | undefined,
+    method: string,
+    duration: number,
+    failed: boolean,
+  ) {
+    let clientSamples = this.samples.get(clientKey);
+    if (!clientSamples) {
+      clientSamples = new Map();
+      this.samples.set(clientKey, clientSamples);
+    }
+    let methodSamples = clientSamples.get(method);
+    if (!methodSamples) {
+      methodSamples = { durations: [], count: 0, errors: 0 };
+      clientSamples.set(method, methodSamples);
+    }
+    methodSamples.durations.push(duration);
+    if (methodSamples.durations.length > windowSize) {
+      methodSamples.durations.shift();
+    }
+    methodSamples.count++;
+    if (failed) {
+      methodSamples.errors++;
+    }
+  }
+
+  public middleware(clientKey: string | undefined): Middleware {
+    return {
+      sendRequest: async (type, param, token, next) => {
+        const method = getMethodName(type, param);
+        const start = performance.now();
+        let failed = false;
+        try {
+          return await next(type, param, token);
+        } catch (e) {
+          failed = true;
+          throw e;
+        } finally {
+          // cancelled requests say nothing about server latency
+          if (!token?.isCancellationRequested) {
+            this.record(clientKey, method, performance.now() - start, failed);
+          }
+        }
+      },
+    };
+  }
+
+  public clientKeys(): (string | undefined)[] {
+    return [...this.samples.keys()];
+  }
+
+  public getSummaries(clientKey: string | undefined): LatencySummary[] {
+    const clientSamples = this.samples.get(clientKey);
+    if (!clientSamples) {
+      return [];
+    }
+    return [...clientSamples.entries()]
+      .map(([method, samples]) => {
+        const sorted = [...samples.durations].sort((a, b) => a - b);
+        return {
+          method,
+          count: samples.count,
+          errors: samples.errors,
+          p50: percentile(sorted, 50),
+          p95: percentile(sorted, 95),
+          p99: percentile(sorted, 99),
+        };
+      })
+      .sort((a, b) => a.method.localeCompare(b.method));
+  }
+
+  public summaryMarkdown(): string {
+    const lines: string[] = [];
+    for (const clientKey of this.clientKeys()) {
+      const summaries = this.getSummaries(clientKey).filter((summary) =>
+        summaryMethods.includes(summary.method),
+      );
+      if (summaries.length === 0) {
+        continue;
+      }
+      lines.push(`**${getClientLabel(clientKey)}**`, "");
+      for (const summary of summaries) {
+        lines.push(
+          `- ${summary.method.replace("textDocument/", "")}: p50 ${Math.round(
+            summary.p50,
+          )} ms, p95 ${Math.round(summary.p95)} ms`,
+        );
+      }
+      lines.push("");
+    }
+    return lines.join("\n");
+  }
+
+  public report(): string {
+    const lines = [
+      "# ElixirLS request latency",
+      "",
+      `Percentiles over the last ${windowSize} requests of every method.`,
+      "",
+    ];
+    const clientKeys = this.clientKeys();
+    if (clientKeys.length === 0) {
+      lines.push("No requests recorded yet.");
+    }
+    for (const clientKey of clientKeys) {
+      lines.push(
+        `## ${getClientLabel(clientKey)}`,
+        "",
+        "| Method | Requests | Errors | p50 (ms) | p95 (ms) | p99 (ms) |",
+        "| --- | ---: | ---: | ---: | ---: | ---: |",
+      );
+      for (const summary of this.getSummaries(clientKey)) {
+        lines.push(
+          `| ${summary.method} | ${summary.count} | ${summary.errors} | ${Math.round(
+            summary.p50,
+          )} | ${Math.round(summary.p95)} | ${Math.round(summary.p99)} |`,
+        );
+      }
+      lines.push("");
+    }
+    return lines.join("\n");
+  }
+}
+
+export const lspLatencyMetrics = new LspLatencyMetrics();
+
+export function configureLspLatency(context: vscode.ExtensionContext) {
+  context.subscriptions.push(
+    vscode.commands.registerCommand("extension.showLspLatency", async () => {
+      const document = await vscode.workspace.openTextDocument({
+        language: "markdown",
+        content: lspLatencyMetrics.report(),
+      });
+      await vscode.commands.executeCommand(
+        "markdown.showPreview",
+        document.uri,
+      );
+    }),
+  );
+}
@@ -0,0 +1,505 @@
+import * as vscode from "vscode";
+import {
+  type LanguageClient,
+  LogMessageNotification,
+  type MessageSignature,
+  MessageType,
+  type Middleware,
+} from "vscode-languageclient/node";
+import { getClientLabel } from "./project";
+
+// Only the most recent entries are kept for every client
+const maxEntriesPerClient = 500;
+
+// Recording is frequent during typing, the tree is refreshed at most this often
+const treeRefreshDelay = 250;
+
+export interface LspTrafficEntry {
+  id: number;
+  // workspace folder uri, undefined for the default client
+  clientKey: string | undefined;
+  kind: "request" | "notification";
+  // server to client messages are incoming
+  direction: "outgoing" | "incoming";
+  method: string;
+  startedAt: number;
+  duration: number | undefined;
+  requestSize: number;
+  responseSize: number | undefined;
+  error: string | undefined;
+  params: unknown;
+  result: unknown;
+}
+
+export function getMethodName(
+  type: string | MessageSignature,
+  param: unknown,
+): string {
+  const method = typeof type === "string" ? type : type.method;
+  if (method === "workspace/executeCommand") {
+    // commands are registered as `name:server_instance_id`
+    const command = (param as { command?: string } | undefined)?.command;
+    if (command) {
+      return `${method}:${command.split(":")[0]}`;
+    }
+  }
+  return method;
+}
+
+function payloadSize(payload: unknown): number {
+  if (payload === undefined) {
+    return 0;
+  }
+  try {
+    return Buffer.byteLength(JSON.stringify(payload) ?? "");
+  } catch {
+    return 0;
+  }
+}
+
+// Document contents are replaced by their length in exports, they may contain
+// code that must not be attached to bug reports
+function redactDocumentContents(method: string, params: unknown): unknown {
+  const redact = (text: unknown) =>
+    typeof text === "string" ? `<${text.length} characters redacted>` : text;
+  const value = params as {
+    textDocument?: { text?: unknown };
+    contentChanges?: { text?: unknown }[];
+    text?: unknown;
+  };
+  switch (method) {
+    case "textDocument/didOpen":
+      return {
+        ...value,
+        textDocument: {
+          ...value.textDocument,
+          text: redact(value.textDocument?.text),
+        },
+      };
+    case "textDocument/didChange":
+      return {
+        ...value,
+        contentChanges: value.contentChanges?.map((change) => ({
+          ...change,
+          text: redact(change.text),
+        })),
+      };
+    case "textDocument/didSave":
+      return value.text === undefined
+        ? params
+        : { ...value, text: redact(value.text) };
+    default:
+      return params;
+  }
+}
+
+function formatSize(size: number | undefined): string {
+  if (size === undefined) {
+    return "-";
+  }
+  if (size < 1024) {
+    return `${size} B`;
+  }
+  return `${(size / 1024).toFixed(1)} kB`;
+}
+
+class LspTrafficRecorder {
+  private entries: Map<string | undefined, LspTrafficEntry[]> = new Map();
+  private nextId = 0;
+  private _enabled = false;
+  private _methodFilter = "";
+
+  private _onDidChange = new vscode.EventEmitter<void>();
+  get onDidChange(): vscode.Event<void> {
+    return this._onDidChange.event;
+  }
+
+  get enabled() {
+    return this._enabled;
+  }
+
+  set enabled(value: boolean) {
+    this._enabled = value;
+    if (!value) {
+      this.clear();
+    }
+  }
+
+  get methodFilter() {
+    return this._methodFilter;
+  }
+
+  set methodFilter(value: string) {
+    this._methodFilter = value;
+    this._onDidChange.fire();
+  }
+
+  public clientKeys(): (string | undefined)[] {
+    return [...this.entries.keys()];
+  }
+
+  public getEntries(clientKey: string | undefined): LspTrafficEntry[] {
+    const entries = this.entries.get(clientKey) ?? [];
+    if (!this._methodFilter) {
+      return entries;
+    }
+    return entries.filter((entry) => entry.method.includes(this._methodFilter));
+  }
+
+  public clear() {
+    this.entries.clear();
+    this._onDidChange.fire();
+  }
+
+  private record(
+    clientKey: string | undefined,
+    kind: "request" | "notification",
+    direction: "outgoing" | "incoming",
+    method: string,
+    params: unknown,
+  ): LspTrafficEntry {
+    const entry: LspTrafficEntry = {
+      id: this.nextId++,
+      clientKey,
+      kind,
+      direction,
+      method,
+      startedAt: Date.now(),
+      duration: undefined,
+      requestSize: payloadSize(params),
+      responseSize: undefined,
+      error: undefined,
+      params,
+      result: undefined,
+    };
+
+    let clientEntries = this.entries.get(clientKey);
+    if (!clientEntries) {
+      clientEntries = [];
+      this.entries.set(clientKey, clientEntries);
+    }
+    clientEntries.push(entry);
+    if (clientEntries.length > maxEntriesPerClient) {
+      clientEntries.shift();
+    }
+    return entry;
+  }
+
+  private async recordRequest<T>(
+    clientKey: string | undefined,
+    direction: "outgoing" | "incoming",
+    method: string,
+    params: unknown,
+    handle: () => Promise<T>,
+  ): Promise<T> {
+    const entry = this.record(clientKey, "request", direction, method, params);
+    const start = performance.now();
+    try {
+      const result = await handle();
+      entry.result = result;
+      entry.responseSize = payloadSize(result);
+      return result;
+    } catch (e) {
+      entry.error = String(e);
+      throw e;
+    } finally {
+      entry.duration = performance.now() - start;
+      this._onDidChange.fire();
+    }
+  }
+
+  private recordNotification(
+    clientKey: string | undefined,
+    direction: "outgoing" | "incoming",
+    method: string,
+    params: unknown,
+  ) {
+    this.record(clientKey, "notification", direction, method, params);
+    this._onDidChange.fire();
+  }
+
+  public middleware(clientKey: string | undefined): Middleware {
+    return {
+      sendRequest: (type, param, token, next) => {
+        if (!this._enabled) {
+          return next(type, param, token);
+        }
+        return this.recordRequest(
+          clientKey,
+          "outgoing",
+          getMethodName(type, param),
+          param,
+          () => next(type, param, token),
+        );
+      },
+      sendNotification: async (type, next, params) => {
+        if (this._enabled) {
+          this.recordNotification(
+            clientKey,
+            "outgoing",
+            getMethodName(type, params),
+            params,
+          );
+        }
+        return next(type, params);
+      },
+      handleDiagnostics: (uri, diagnostics, next) => {
+        if (this._enabled) {
+          this.recordNotification(
+            clientKey,
+            "incoming",
+            "textDocument/publishDiagnostics",
+            { uri: uri.toString(), diagnostics },
+          );
+        }
+        next(uri, diagnostics);
+      },
+    };
+  }
+
+  // Records a request the server sent to the client, e.g. workspace/applyEdit
+  public handleServerRequest<T>(
+    client: LanguageClient,
+    method: string,
+    params: unknown,
+    handle: () => Promise<T>,
+  ): Promise<T> {
+    if (!this._enabled) {
+      return handle();
+    }
+    return this.recordRequest(
+      client.clientOptions.workspaceFolder?.uri.toString(),
+      "incoming",
+      method,
+      params,
+      handle,
+    );
+  }
+
+  // Replaces the default window/logMessage handler of the client with one that
+  // records the message and logs it the same way
+  public registerLogMessageHandler(client: LanguageClient): vscode.Disposable {
+    return client.onNotification(LogMessageNotification.type, (message) => {
+      if (this._enabled) {
+        this.recordNotification(
+          client.clientOptions.workspaceFolder?.uri.toString(),
+          "incoming",
+          LogMessageNotification.method,
+          message,
+        );
+      }
+      switch (message.type) {
+        case MessageType.Error:
+          client.error(message.message, undefined, false);
+          break;
+        case MessageType.Warning:
+          client.warn(message.message, undefined, false);
+          break;
+        case MessageType.Info:
+          client.info(message.message, undefined, false);
+          break;
+        case MessageType.Debug:
+          client.debug(message.message, undefined, false);
+          break;
+        default:
+          client.outputChannel.appendLine(message.message);
+      }
+    });
+  }
+
+  // HAR-like export suitable for attaching to bug reports
+  public export() {
+    const entries = this.clientKeys().flatMap((clientKey) =>
+      this.getEntries(clientKey),
+    );
+    return {
+      log: {
+        version: "1.2",
+        creator: { name: "ElixirLS LSP Traffic Inspector", version: "1.0" },
+        entries: entries
+          .sort((a, b) => a.startedAt - b.startedAt)
+          .map((entry) => ({
+            startedDateTime: new Date(entry.startedAt).toISOString(),
+            time: entry.duration ?? 0,
+            client: entry.clientKey ?? "default",
+            request: {
+              method: entry.method,
+              kind: entry.kind,
+              direction: entry.direction,
+              bodySize: entry.requestSize,
+              params: redactDocumentContents(entry.method, entry.params),
+            },
+            response: {
+              bodySize: entry.responseSize ?? 0,
+              error: entry.error,
+              result: entry.result,
+            },
+          })),
+      },
+    };
+  }
+}
+
+export const lspTrafficRecorder = new LspTrafficRecorder();
+
+type TrafficTreeNode =
+  | { type: "client"; clientKey: string | undefined }
+  | { type: "entry"; entry: LspTrafficEntry };
+
+class LspTrafficTreeDataProvider
+  implements vscode.TreeDataProvider<TrafficTreeNode>, vscode.Disposable
+{
+  private refreshTimer: NodeJS.Timeout | undefined;
+  private recorderListener: vscode.Disposable;
+
+  private _onDidChangeTreeData = new vscode.EventEmitter<void>();
+  get onDidChangeTreeData(): vscode.Event<void> {
+    return this._onDidChangeTreeData.event;
+  }
+
+  constructor() {
+    this.recorderListener = lspTrafficRecorder.onDidChange(() => {
+      if (this.refreshTimer) {
+        return;
+      }
+      this.refreshTimer = setTimeout(() => {
+        this.refreshTimer = undefined;
+        this._onDidChangeTreeData.fire();
+      }, treeRefreshDelay);
+    });
+  }
+
+  public dispose() {
+    clearTimeout(this.refreshTimer);
+    this.recorderListener.dispose();
+    this._onDidChangeTreeData.dispose();
+  }
+
+  public getChildren(element?: TrafficTreeNode): TrafficTreeNode[] {
+    if (!element) {
+      return lspTrafficRecorder
+        .clientKeys()
+        .map((clientKey) => ({ type: "client", clientKey }));
+    }
+    if (element.type === "client") {
+      return lspTrafficRecorder
+        .getEntries(element.clientKey)
+        .slice()
+        .reverse()
+        .map((entry) => ({ type: "entry", entry }));
+    }
+    return [];
+  }
+
+  public getTreeItem(element: TrafficTreeNode): vscode.TreeItem {
+    if (element.type === "client") {
+      const item = new vscode.TreeItem(
+        getClientLabel(element.clientKey),
+        vscode.TreeItemCollapsibleState.Expanded,
+      );
+      item.id = `client:${element.clientKey ?? "default"}`;
+      item.description = lspTrafficRecorder.methodFilter
+        ? `filter: ${lspTrafficRecorder.methodFilter}`
+        : undefined;
+      return item;
+    }
+
+    const entry = element.entry;
+    const item = new vscode.TreeItem(entry.method);
+    item.id = `entry:${entry.id}`;
+    if (entry.kind === "notification") {
+      item.description = `notification · ${formatSize(entry.requestSize)}`;
+      item.iconPath = new vscode.ThemeIcon(
+        entry.direction === "incoming" ? "arrow-left" : "arrow-right",
+      );
+    } else {
+      const duration =
+        entry.duration === undefined
+          ? "pending"
+          : `${Math.round(entry.duration)} ms`;
+      item.description = `${duration} · ${formatSize(
+        entry.requestSize,
+      )} / ${formatSize(entry.responseSize)}`;
+      item.iconPath = new vscode.ThemeIcon(
+        entry.error ? "error" : "arrow-swap",
+      );
+    }
+    item.tooltip = entry.error
+      ? `${new Date(entry.startedAt).toISOString()}\n${entry.error}`
+      : new Date(entry.startedAt).toISOString();
+    item.command = {
+      command: "extension.lspTrafficShowEntry",
+      title: "Show LSP message",
+      arguments: [entry],
+    };
+    return item;
+  }
+}
+
+export function configureLspTrafficInspector(context: vscode.ExtensionContext) {
+  const readConfiguration = () => {
+    lspTrafficRecorder.enabled = vscode.workspace
+      .getConfiguration("elixirLS")
+      .get<boolean>("lspTrafficInspector", false);
+  };
+  readConfiguration();
+
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration((event) => {
+      if (event.affectsConfiguration("elixirLS.lspTrafficInspector")) {
+        readConfiguration();
+      }
+    }),
+  );
+
+  const treeDataProvider = new LspTrafficTreeDataProvider();
+  context.subscriptions.push(
+    treeDataProvider,
+    vscode.window.registerTreeDataProvider(
+      "elixirLS.lspTraffic",
+      treeDataProvider,
+    ),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "extension.lspTrafficShowEntry",
+      async (entry: LspTrafficEntry) => {
+        const document = await vscode.workspace.openTextDocument({
+          language: "json",
+          content: JSON.stringify(entry, null, 2),
+        });
+        await vscode.window.showTextDocument(document, { preview: true });
+      },
+    ),
+    vscode.commands.registerCommand("extension.lspTrafficFilter", async () => {
+      const filter = await vscode.window.showInputBox({
+        prompt: "Show only LSP methods containing",
+        placeHolder: "e.g. textDocument/completion",
+        value: lspTrafficRecorder.methodFilter,
+      });
+      if (filter !== undefined) {
+        lspTrafficRecorder.methodFilter = filter.trim();
+      }
+    }),
+    vscode.commands.registerCommand("extension.lspTrafficClear", () => {
+      lspTrafficRecorder.clear();
+    }),
+    vscode.commands.registerCommand("extension.lspTrafficExport", async () => {
+      const uri = await vscode.window.showSaveDialog({
+        filters: { "HAR-like JSON": ["json", "har"] },
+        saveLabel: "Export LSP traffic",
+      });
+      if (!uri) {
+        return;
+      }
+      await vscode.workspace.fs.writeFile(
+        uri,
+        Buffer.from(JSON.stringify(lspTrafficRecorder.export(), null, 2)),
+      );
+      vscode.window.showInformationMessage(
+        `Exported LSP traffic to ${uri.fsPath}`,
+      );
+    }),
+  );
+}
@@ -0,0 +1,155 @@
+import * as vscode from "vscode";
+
+// Calls at the beginning of a line, e.g. `use Foo`, `schema "users" do`,
+// `MyMacros.define :foo`. Assignments and pipelines are not calls.
+const callRegex =
+  /^(\s*)((?:[A-Z][\w]*\.)*[a-z_][\w]*[?!]?)(?=[\s(]|$)(?!\s*(?:=[^=~>]|\|>|::))/;
+const doBlockRegex = /\bdo\s*(?:#.*)?$/;
+const useRegex = /^\s*use\s+[A-Z]/;
+
+// Keywords that continue or close a block rather than start an expression
+const notCalls = new Set([
+  "end",
+  "do",
+  "else",
+  "after",
+  "rescue",
+  "catch",
+  "fn",
+  "when",
+  "and",
+  "or",
+  "not",
+  "in",
+]);
+
+function indentation(line: string) {
+  return line.length - line.trimStart().length;
+}
+
+// Bracket depth change of a line, strings and comments are skipped
+function bracketBalance(line: string) {
+  let balance = 0;
+  let quote: string | undefined;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote) {
+      if (char === "\\") {
+        i++;
+      } else if (char === quote) {
+        quote = undefined;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "#") {
+      break;
+    } else if ("([{".includes(char)) {
+      balance++;
+    } else if (")]}".includes(char)) {
+      balance--;
+    }
+  }
+  return balance;
+}
+
+// Range of the call starting at the line, up to the matching `end` of a do
+// block or the closing bracket of multi-line arguments
+export function findCallRange(
+  document: vscode.TextDocument,
+  line: number,
+): vscode.Range | undefined {
+  const text = document.lineAt(line).text;
+  const match = text.match(callRegex);
+  if (!match || notCalls.has(match[2])) {
+    return undefined;
+  }
+  const start = new vscode.Position(line, match[1].length);
+
+  if (doBlockRegex.test(text)) {
+    const indent = indentation(text);
+    for (let i = line + 1; i < document.lineCount; i++) {
+      const candidate = document.lineAt(i).text;
+      if (indentation(candidate) === indent && /^\s*end\b/.test(candidate)) {
+        return new vscode.Range(
+          start,
+          new vscode.Position(i, indent + "end".length),
+        );
+      }
+    }
+    return undefined;
+  }
+
+  let balance = 0;
+  for (let i = line; i < document.lineCount; i++) {
+    const lineText = document.lineAt(i).text;
+    balance += bracketBalance(lineText);
+    if (balance <= 0) {
+      return new vscode.Range(
+        start,
+        new vscode.Position(i, lineText.trimEnd().length),
+      );
+    }
+  }
+  return undefined;
+}
+
+function innermostSymbol(
+  symbols: vscode.DocumentSymbol[],
+  position: vscode.Position,
+): vscode.DocumentSymbol | undefined {
+  for (const symbol of symbols) {
+    if (symbol.range.contains(position)) {
+      return innermostSymbol(symbol.children, position) ?? symbol;
+    }
+  }
+  return undefined;
+}
+
+// Finds the macro call enclosing the position. A symbol reported by the server
+// starting on the line is used first as its range comes from the AST. Otherwise
+// the call starting on the line or the nearest enclosing `do` block is used.
+export async function findEnclosingMacroCall(
+  document: vscode.TextDocument,
+  position: vscode.Position,
+): Promise<vscode.Range | undefined> {
+  const symbols = await vscode.commands.executeCommand<
+    vscode.DocumentSymbol[] | undefined
+  >("vscode.executeDocumentSymbolProvider", document.uri);
+  const symbol =
+    symbols && "children" in (symbols[0] ?? {})
+      ? innermostSymbol(symbols, position)
+      : undefined;
+  if (
+    symbol &&
+    symbol.range.start.line === position.line &&
+    symbol.kind !== vscode.SymbolKind.Module
+  ) {
+    return symbol.range;
+  }
+
+  const range = findCallRange(document, position.line);
+  if (range) {
+    return range;
+  }
+
+  // walk up to the `do` block containing the position
+  const indent = indentation(document.lineAt(position.line).text);
+  for (let line = position.line - 1; line >= 0; line--) {
+    const text = document.lineAt(line).text;
+    if (
+      text.trim() !== "" &&
+      indentation(text) <= indent &&
+      doBlockRegex.test(text)
+    ) {
+      const blockRange = findCallRange(document, line);
+      if (blockRange?.contains(position)) {
+        return blockRange;
+      }
+    }
+  }
+  return undefined;
+}
+
+export function isUseLine(text: string) {
+  return useRegex.test(text);
+}
@@ -0,0 +1,280 @@
+import * as path from "node:path";
+import * as vscode from "vscode";
+import {
+  type MixDependency,
+  type MixProject,
+  type WorkspaceTracker,
+  findMixApp,
+} from "./project";
+import { type MixTaskSpec, createMixTask, mixTaskSpecs } from "./taskProvider";
+import {
+  isWorkspaceTrusted,
+  showRestrictedModeMessage,
+} from "./workspaceTrust";
+
+type MixProjectsTreeNode =
+  | { type: "project"; project: MixProject }
+  | { type: "deps"; project: MixProject }
+  | { type: "dep"; project: MixProject; dep: MixDependency }
+  | { type: "config"; project: MixProject }
+  | { type: "configFile"; file: string };
+
+function hasOwnConfig(project: MixProject): boolean {
+  // umbrella apps usually point config_path to the umbrella config
+  return project.configFiles.some((file) =>
+    file.startsWith(project.dir + path.sep),
+  );
+}
+
+function describeDependency(dep: MixDependency): string | undefined {
+  if (dep.inUmbrella) {
+    return "in umbrella";
+  }
+  if (dep.path) {
+    return `path: ${dep.path}`;
+  }
+  return dep.requirement;
+}
+
+class MixProjectsTreeDataProvider
+  implements vscode.TreeDataProvider<MixProjectsTreeNode>
+{
+  private _onDidChangeTreeData = new vscode.EventEmitter<void>();
+  get onDidChangeTreeData(): vscode.Event<void> {
+    return this._onDidChangeTreeData.event;
+  }
+
+  constructor(private workspaceTracker: WorkspaceTracker) {}
+
+  public getProjects(): MixProject[] {
+    return this.workspaceTracker.getMixProjects();
+  }
+
+  public refresh() {
+    this._onDidChangeTreeData.fire();
+  }
+
+  public getChildren(element?: MixProjectsTreeNode): MixProjectsTreeNode[] {
+    if (!element) {
+      return this.getProjects().map((project) => ({
+        type: "project",
+        project,
+      }));
+    }
+
+    switch (element.type) {
+      case "project": {
+        const project = element.project;
+        const children: MixProjectsTreeNode[] = project.apps.map((app) => ({
+          type: "project",
+          project: app,
+        }));
+        if (project.deps.length > 0) {
+          children.push({ type: "deps", project });
+        }
+        if (hasOwnConfig(project)) {
+          children.push({ type: "config", project });
+        }
+        return children;
+      }
+      case "deps":
+        return element.project.deps.map((dep) => ({
+          type: "dep",
+          project: element.project,
+          dep,
+        }));
+      case "config":
+        return element.project.configFiles.map((file) => ({
+          type: "configFile",
+          file,
+        }));
+      default:
+        return [];
+    }
+  }
+
+  public getTreeItem(element: MixProjectsTreeNode): vscode.TreeItem {
+    switch (element.type) {
+      case "project": {
+        const project = element.project;
+        const item = new vscode.TreeItem(
+          project.name,
+          vscode.TreeItemCollapsibleState.Collapsed,
+        );
+        item.id = `project:${project.dir}`;
+        item.description = path.relative(
+          project.workspaceFolder.uri.fsPath,
+          project.dir,
+        );
+        item.tooltip = project.mixExsPath;
+        item.iconPath = new vscode.ThemeIcon(
+          project.apps.length > 0 ? "folder-library" : "package",
+        );
+        item.contextValue = "mixProject";
+        return item;
+      }
+      case "deps": {
+        const item = new vscode.TreeItem(
+          "Dependencies",
+          vscode.TreeItemCollapsibleState.Collapsed,
+        );
+        item.id = `deps:${element.project.dir}`;
+        item.description = `${element.project.deps.length}`;
+        item.iconPath = new vscode.ThemeIcon("references");
+        return item;
+      }
+      case "dep": {
+        const item = new vscode.TreeItem(element.dep.name);
+        item.id = `dep:${element.project.dir}:${element.dep.name}`;
+        item.description = describeDependency(element.dep);
+        item.iconPath = new vscode.ThemeIcon("package");
+        if (element.dep.inUmbrella) {
+          const app = findMixApp(this.getProjects(), element.dep.name);
+          if (app) {
+            item.command = {
+              command: "extension.mixProjectOpenMixExs",
+              title: "Open mix.exs",
+              arguments: [{ type: "project", project: app }],
+            };
+          }
+        }
+        return item;
+      }
+      case "config": {
+        const item = new vscode.TreeItem(
+          "Config",
+          vscode.TreeItemCollapsibleState.Collapsed,
+        );
+        item.id = `config:${element.project.dir}`;
+        item.iconPath = new vscode.ThemeIcon("settings-gear");
+        return item;
+      }
+      case "configFile": {
+        const uri = vscode.Uri.file(element.file);
+        const item = new vscode.TreeItem(uri);
+        item.id = `configFile:${element.file}`;
+        item.command = {
+          command: "vscode.open",
+          title: "Open config file",
+          arguments: [uri],
+        };
+        return item;
+      }
+    }
+  }
+}
+
+async function runMixTask(spec: MixTaskSpec, project: MixProject) {
+  if (!isWorkspaceTrusted()) {
+    await showRestrictedModeMessage("Running Mix tasks");
+    return;
+  }
+  await vscode.tasks.executeTask(
+    createMixTask(spec, project.workspaceFolder, project.dir, project),
+  );
+}
+
+export function configureMixProjectsView(
+  context: vscode.ExtensionContext,
+  workspaceTracker: WorkspaceTracker,
+) {
+  const treeDataProvider = new MixProjectsTreeDataProvider(workspaceTracker);
+  context.subscriptions.push(
+    vscode.window.registerTreeDataProvider(
+      "elixirLS.mixProjects",
+      treeDataProvider,
+    ),
+    workspaceTracker.onDidChangeMixProjects(() => treeDataProvider.refresh()),
+    vscode.workspace.onDidChangeConfiguration((event) => {
+      if (
+        event.affectsConfiguration("elixirLS.projectDir") ||
+        event.affectsConfiguration("elixirLS.discoverNestedProjects") ||
+        event.affectsConfiguration("elixirLS.useCurrentRootFolderAsProjectDir")
+      ) {
+        treeDataProvider.refresh();
+      }
+    }),
+  );
+
+  // commands invoked from the command palette get no tree node
+  const pickProject = async (
+    node: MixProjectsTreeNode | undefined,
+  ): Promise<MixProject | undefined> => {
+    if (node?.type === "project") {
+      return node.project;
+    }
+    const projects = treeDataProvider
+      .getProjects()
+      .flatMap((project) => [project, ...project.apps]);
+    if (projects.length <= 1) {
+      return projects[0];
+    }
+    const selection = await vscode.window.showQuickPick(
+      projects.map((project) => ({
+        label: project.name,
+        description: path.relative(
+          project.workspaceFolder.uri.fsPath,
+          project.dir,
+        ),
+        project,
+      })),
+      { placeHolder: "Select Mix project" },
+    );
+    return selection?.project;
+  };
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("extension.mixProjectsRefresh", () => {
+      workspaceTracker.handleDidChangeMixProjects();
+    }),
+    vscode.commands.registerCommand(
+      "extension.mixProjectOpenMixExs",
+      async (node?: MixProjectsTreeNode) => {
+        const project = await pickProject(node);
+        if (!project) {
+          return;
+        }
+        const document = await vscode.workspace.openTextDocument(
+          project.mixExsPath,
+        );
+        await vscode.window.showTextDocument(document);
+      },
+    ),
+    vscode.commands.registerCommand(
+      "extension.mixProjectRunTests",
+      async (node?: MixProjectsTreeNode) => {
+        const project = await pickProject(node);
+        const spec = mixTaskSpecs.find((spec) => spec.name === "Run tests");
+        if (!project || !spec) {
+          return;
+        }
+        await runMixTask(spec, project);
+      },
+    ),
+    vscode.commands.registerCommand(
+      "extension.mixProjectRunTask",
+      async (node?: MixProjectsTreeNode) => {
+        const project = await pickProject(node);
+        if (!project) {
+          return;
+        }
+        // tasks referencing the active file are relative to the workspace folder
+        const specs = mixTaskSpecs.filter(
+          (spec) => !spec.command.includes("${"),
+        );
+        const selection = await vscode.window.showQuickPick(
+          specs.map((spec) => ({
+            label: spec.name,
+            description: spec.command,
+            spec,
+          })),
+          { placeHolder: `Select task to run in ${project.name}` },
+        );
+        if (!selection) {
+          return;
+        }
+        await runMixTask(selection.spec, project);
+      },
+    ),
+  );
+}
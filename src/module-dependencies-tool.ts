@@ -1,9 +1,6 @@
 import * as vscode from "vscode";
-import {
-  type ExecuteCommandParams,
-  ExecuteCommandRequest,
-  type LanguageClient,
-} from "vscode-languageclient/node";
+import type { LanguageClient } from "vscode-languageclient/node";
+import { executeServerCommand } from "./serverCommands";
 
 interface IParameters {
   module: string;
@@ -60,29 +57,11 @@ export class ModuleDependenciesTool
     const { module } = options.input;
 
     try {
-      // Find the llmModuleDependencies command from server capabilities
-      const command =
-        this.client.initializeResult?.capabilities.executeCommandProvider?.commands.find(
-          (c) => c.startsWith("llmModuleDependencies:"),
-        );
-
-      if (!command) {
-        return new vscode.LanguageModelToolResult([
-          new vscode.LanguageModelTextPart(
-            "ElixirLS language server is not ready or does not support the llmModuleDependencies command",
-          ),
-        ]);
-      }
-
-      const params: ExecuteCommandParams = {
-        command: command,
-        arguments: [module],
-      };
-
-      const result = await this.client.sendRequest<IModuleDependenciesResult>(
-        ExecuteCommandRequest.method,
-        params,
-        token,
+      const result = await executeServerCommand<IModuleDependenciesResult>(
+        this.client,
+        "llmModuleDependencies",
+        [module],
+        { token },
       );
 
       if (result?.error) {
@@ -13,6 +13,185 @@ export function getProjectDir(workspaceFolder: vscode.WorkspaceFolder): string {
     : workspaceFolder.uri.fsPath;
 }
 
+// Nested Mix projects are searched for up to this many directories deep, the
+// depth is limited in the glob so that big trees are not walked
+const nestedProjectsMaxDepth = 4;
+const nestedProjectsGlob = `{${Array.from(
+  { length: nestedProjectsMaxDepth },
+  (_, i) => `${"*/".repeat(i + 1)}mix.exs`,
+).join(",")}}`;
+const nestedProjectsExclude = "**/{deps,_build,node_modules,.*}/**";
+
+async function findNestedMixProjects(dir: string): Promise<string[]> {
+  const files = await vscode.workspace.findFiles(
+    new vscode.RelativePattern(dir, nestedProjectsGlob),
+    nestedProjectsExclude,
+  );
+  const projectDirs = files
+    .map((file) => path.dirname(file.fsPath))
+    .sort((a, b) => a.length - b.length);
+
+  const result: string[] = [];
+  for (const projectDir of projectDirs) {
+    // found projects are not descended into, umbrella apps belong to their umbrella
+    if (!result.some((parent) => projectDir.startsWith(parent + path.sep))) {
+      result.push(projectDir);
+    }
+  }
+  return result.sort();
+}
+
+// Label of a language client key - workspace folder or nested Mix project uri
+export function getClientLabel(clientKey: string | undefined): string {
+  if (!clientKey) {
+    return "(default)";
+  }
+  const uri = vscode.Uri.parse(clientKey);
+  const folder = vscode.workspace.getWorkspaceFolder(uri);
+  if (!folder) {
+    return uri.fsPath;
+  }
+  const relativePath = path.relative(folder.uri.fsPath, uri.fsPath);
+  return relativePath ? `${folder.name}/${relativePath}` : folder.name;
+}
+
+export interface MixDependency {
+  name: string;
+  // version requirement, undefined for git, path and umbrella deps
+  requirement: string | undefined;
+  inUmbrella: boolean;
+  path: string | undefined;
+}
+
+export interface MixProject {
+  // OTP application name, undefined for umbrella projects
+  app: string | undefined;
+  name: string;
+  dir: string;
+  mixExsPath: string;
+  workspaceFolder: vscode.WorkspaceFolder;
+  // apps of an umbrella project, empty otherwise
+  apps: MixProject[];
+  deps: MixDependency[];
+  configFiles: string[];
+}
+
+interface MixExsInfo {
+  app: string | undefined;
+  appsPath: string | undefined;
+  configPath: string | undefined;
+  deps: MixDependency[];
+}
+
+// mix.exs is not evaluated, common project keyword options and the deps
+// list are matched instead
+export function parseMixExs(contents: string): MixExsInfo {
+  const source = contents.replace(/^\s*#.*$/gm, "");
+  const deps: MixDependency[] = [];
+
+  const depsBody = source.match(
+    /defp?\s+deps\s*(?:\(\s*\))?\s*do([\s\S]*?)\n\s*end\b/,
+  )?.[1];
+  if (depsBody) {
+    for (const match of depsBody.matchAll(/\{\s*:(\w+)\s*(?:,([^}]*))?\}/g)) {
+      const options = match[2] ?? "";
+      deps.push({
+        name: match[1],
+        requirement: options.match(/^\s*"([^"]*)"/)?.[1],
+        inUmbrella: /in_umbrella:\s*true/.test(options),
+        path: options.match(/\bpath:\s*"([^"]+)"/)?.[1],
+      });
+    }
+  }
+
+  return {
+    app: source.match(/\bapp:\s*:(\w+)/)?.[1],
+    appsPath: source.match(/\bapps_path:\s*"([^"]+)"/)?.[1],
+    configPath: source.match(/\bconfig_path:\s*"([^"]+)"/)?.[1],
+    deps,
+  };
+}
+
+function findConfigFiles(dir: string, configPath: string | undefined) {
+  const configDir = path.dirname(
+    path.resolve(dir, configPath ?? path.join("config", "config.exs")),
+  );
+  try {
+    return fs
+      .readdirSync(configDir)
+      .filter((file) => file.endsWith(".exs"))
+      .sort()
+      .map((file) => path.join(configDir, file));
+  } catch {
+    return [];
+  }
+}
+
+export function readMixProject(
+  dir: string,
+  workspaceFolder: vscode.WorkspaceFolder,
+): MixProject | undefined {
+  const mixExsPath = path.join(dir, "mix.exs");
+  let contents: string;
+  try {
+    contents = fs.readFileSync(mixExsPath, "utf8");
+  } catch {
+    return undefined;
+  }
+
+  const info = parseMixExs(contents);
+  const apps: MixProject[] = [];
+  if (info.appsPath) {
+    const appsDir = path.resolve(dir, info.appsPath);
+    let entries: fs.Dirent[] = [];
+    try {
+      entries = fs.readdirSync(appsDir, { withFileTypes: true });
+    } catch {
+      console.warn(`ElixirLS: unable to read umbrella apps in ${appsDir}`);
+    }
+    for (const entry of entries) {
+      if (entry.isDirectory()) {
+        const app = readMixProject(
+          path.join(appsDir, entry.name),
+          workspaceFolder,
+        );
+        if (app) {
+          apps.push(app);
+        }
+      }
+    }
+    apps.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  return {
+    app: info.app,
+    name: info.app ?? path.basename(dir),
+    dir,
+    mixExsPath,
+    workspaceFolder,
+    apps,
+    deps: info.deps,
+    configFiles: findConfigFiles(dir, info.configPath),
+  };
+}
+
+// Returns the project or umbrella app with the given OTP application name
+export function findMixApp(
+  projects: MixProject[],
+  app: string,
+): MixProject | undefined {
+  for (const project of projects) {
+    if (project.app === app) {
+      return project;
+    }
+    const umbrellaApp = findMixApp(project.apps, app);
+    if (umbrellaApp) {
+      return umbrellaApp;
+    }
+  }
+  return undefined;
+}
+
 export enum WorkspaceMode {
   NO_WORKSPACE = "NO_WORKSPACE",
   SINGLE_FOLDER = "SINGLE_FOLDER",
@@ -21,6 +200,16 @@ export enum WorkspaceMode {
 
 export class WorkspaceTracker {
   private _sortedWorkspaceFolders: string[] | undefined;
+  // outermost workspace folder uri -> project dirs of nested Mix projects
+  private _nestedMixProjects: Map<string, string[]> = new Map();
+  private _nestedMixProjectsDiscovery: Promise<void> = Promise.resolve();
+  // parsed mix.exs files, read again after a mix.exs changes
+  private _mixProjects: MixProject[] | undefined;
+
+  private _onDidChangeMixProjects = new vscode.EventEmitter<void>();
+  get onDidChangeMixProjects(): vscode.Event<void> {
+    return this._onDidChangeMixProjects.event;
+  }
 
   private sortedWorkspaceFolders(): string[] {
     if (this._sortedWorkspaceFolders === void 0) {
@@ -97,7 +286,7 @@ export class WorkspaceTracker {
     // most likely handleDidChangeWorkspaceFolders callback has not yet run
     // clear cache and try again
     if (!isRetry) {
-      this.handleDidChangeWorkspaceFolders();
+      this._sortedWorkspaceFolders = undefined;
       return this._getOuterMostWorkspaceFolder(folder, true);
     }
     throw `not able to find outermost workspace folder for ${folder.uri.fsPath}`;
@@ -105,6 +294,100 @@ export class WorkspaceTracker {
 
   public handleDidChangeWorkspaceFolders() {
     this._sortedWorkspaceFolders = undefined;
+    this._mixProjects = undefined;
+  }
+
+  // Nested Mix projects are discovered again, the previous ones are served
+  // until the discovery finishes
+  public handleDidChangeMixProjects(): Promise<void> {
+    this._mixProjects = undefined;
+    this._nestedMixProjectsDiscovery = this._nestedMixProjectsDiscovery
+      .then(() => this.discoverNestedMixProjects())
+      .catch((e) =>
+        console.error("ElixirLS: unable to discover nested Mix projects", e),
+      )
+      .then(() => this._onDidChangeMixProjects.fire());
+    return this._nestedMixProjectsDiscovery;
+  }
+
+  private async discoverNestedMixProjects() {
+    const outermostFolders = new Map<string, vscode.WorkspaceFolder>();
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+      const outermostFolder = this.getOuterMostWorkspaceFolder(folder);
+      outermostFolders.set(outermostFolder.uri.toString(), outermostFolder);
+    }
+
+    const nestedMixProjects = new Map<string, string[]>();
+    for (const [key, folder] of outermostFolders) {
+      const discoverNestedProjects = vscode.workspace
+        .getConfiguration("elixirLS", folder)
+        .get<boolean>("discoverNestedProjects");
+      const projectDir = getProjectDir(folder);
+      const projects =
+        discoverNestedProjects &&
+        !fs.existsSync(path.join(projectDir, "mix.exs"))
+          ? await findNestedMixProjects(projectDir)
+          : [];
+      if (projects.length > 0) {
+        console.log(
+          `ElixirLS: found nested Mix projects in ${folder.uri.fsPath}`,
+          projects,
+        );
+      }
+      nestedMixProjects.set(key, projects);
+    }
+    this._nestedMixProjects = nestedMixProjects;
+    this._mixProjects = undefined;
+  }
+
+  // Project dirs of Mix projects nested in a workspace folder that has no mix.exs
+  // in its project dir. Empty until handleDidChangeMixProjects discovers them or
+  // when elixirLS.discoverNestedProjects is disabled.
+  public getNestedMixProjects(folder: vscode.WorkspaceFolder): string[] {
+    const discoverNestedProjects = vscode.workspace
+      .getConfiguration("elixirLS", folder)
+      .get<boolean>("discoverNestedProjects");
+    if (!discoverNestedProjects) {
+      return [];
+    }
+    return this._nestedMixProjects.get(folder.uri.toString()) ?? [];
+  }
+
+  // Returns a pseudo workspace folder rooted at the nearest nested Mix project
+  // containing the uri
+  public getNestedMixProjectFolder(
+    outermostFolder: vscode.WorkspaceFolder,
+    uri: vscode.Uri,
+  ): vscode.WorkspaceFolder | undefined {
+    if (uri.scheme !== "file") {
+      return undefined;
+    }
+    const projectDir = this.getNestedMixProjects(outermostFolder).find(
+      (dir) => uri.fsPath === dir || uri.fsPath.startsWith(dir + path.sep),
+    );
+    if (!projectDir) {
+      return undefined;
+    }
+    return {
+      uri: vscode.Uri.file(projectDir),
+      name: `${outermostFolder.name}/${path.relative(
+        outermostFolder.uri.fsPath,
+        projectDir,
+      )}`,
+      index: outermostFolder.index,
+    };
+  }
+
+  // Returns the folder whose language server handles the uri - a nested Mix
+  // project or the outermost workspace folder
+  public getClientFolder(
+    folder: vscode.WorkspaceFolder,
+    uri: vscode.Uri,
+  ): vscode.WorkspaceFolder {
+    const outermostFolder = this.getOuterMostWorkspaceFolder(folder);
+    return (
+      this.getNestedMixProjectFolder(outermostFolder, uri) ?? outermostFolder
+    );
   }
 
   public getProjectDirForUri(uri: vscode.Uri) {
@@ -112,10 +395,48 @@ export class WorkspaceTracker {
     if (workspaceFolder) {
       const outermostWorkspaceFolder =
         this.getOuterMostWorkspaceFolder(workspaceFolder);
+      const nestedProjectFolder = this.getNestedMixProjectFolder(
+        outermostWorkspaceFolder,
+        uri,
+      );
+      if (nestedProjectFolder) {
+        return nestedProjectFolder.uri.fsPath;
+      }
       return getProjectDir(outermostWorkspaceFolder);
     }
   }
 
+  // Mix projects of all outermost workspace folders, nested projects included.
+  // The result is cached until handleDidChangeMixProjects is called.
+  public getMixProjects(): MixProject[] {
+    if (this._mixProjects === undefined) {
+      this._mixProjects = this.readMixProjects();
+    }
+    return this._mixProjects;
+  }
+
+  private readMixProjects(): MixProject[] {
+    const outermostFolders = new Map<string, vscode.WorkspaceFolder>();
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+      const outermostFolder = this.getOuterMostWorkspaceFolder(folder);
+      outermostFolders.set(outermostFolder.uri.toString(), outermostFolder);
+    }
+
+    const projects: MixProject[] = [];
+    for (const folder of outermostFolders.values()) {
+      const nestedProjects = this.getNestedMixProjects(folder);
+      const dirs =
+        nestedProjects.length > 0 ? nestedProjects : [getProjectDir(folder)];
+      for (const dir of dirs) {
+        const project = readMixProject(dir, folder);
+        if (project) {
+          projects.push(project);
+        }
+      }
+    }
+    return projects;
+  }
+
   public get mode(): WorkspaceMode {
     if (vscode.workspace.workspaceFile) {
       return WorkspaceMode.MULTI_ROOT;
@@ -0,0 +1,224 @@
+import * as vscode from "vscode";
+import {
+  ErrorCodes,
+  type ExecuteCommandParams,
+  ExecuteCommandRequest,
+  LSPErrorCodes,
+  type LanguageClient,
+  ResponseError,
+  State,
+} from "vscode-languageclient/node";
+import { reporter } from "./telemetry";
+
+// Server commands are registered as `name:server_instance_id`
+export type ServerCommandName =
+  | "expandMacro"
+  | "manipulatePipes"
+  | "mixClean"
+  | "getExUnitTestsInFile"
+  | "llmDefinition"
+  | "llmDocsAggregator"
+  | "llmEnvironment"
+  | "llmImplementationFinder"
+  | "llmModuleDependencies"
+  | "llmTypeInfo";
+
+const defaultTimeout = 30 * 1000;
+const defaultRetries = 3;
+const retryDelay = 1000;
+
+export class ServerCommandError extends Error {
+  constructor(
+    message: string,
+    public readonly command: string,
+  ) {
+    super(message);
+    this.name = "ServerCommandError";
+  }
+}
+
+export class ServerNotReadyError extends ServerCommandError {
+  // client is undefined when no server was started for the document yet
+  constructor(command: string, client: LanguageClient | undefined) {
+    super(
+      client
+        ? `language server ${client.name} is not ready (${State[client.state]})`
+        : "language server is not started",
+      command,
+    );
+    this.name = "ServerNotReadyError";
+  }
+}
+
+export class ServerCommandNotSupportedError extends ServerCommandError {
+  constructor(command: string, client: LanguageClient) {
+    super(
+      `language server ${client.name} does not provide the ${command} command`,
+      command,
+    );
+    this.name = "ServerCommandNotSupportedError";
+  }
+}
+
+export class ServerCommandTimeoutError extends ServerCommandError {
+  constructor(command: string, timeout: number) {
+    super(`${command} command timed out after ${timeout} ms`, command);
+    this.name = "ServerCommandTimeoutError";
+  }
+}
+
+export class ServerCommandCancelledError extends ServerCommandError {
+  constructor(command: string) {
+    super(`${command} command was cancelled`, command);
+    this.name = "ServerCommandCancelledError";
+  }
+}
+
+export interface ServerCommandOptions {
+  token?: vscode.CancellationToken;
+  // milliseconds, 0 disables the timeout
+  timeout?: number;
+  // attempts made while the server is starting or not yet initialized
+  retries?: number;
+}
+
+export function findServerCommand(
+  client: LanguageClient,
+  name: string,
+): string | undefined {
+  return client.initializeResult?.capabilities.executeCommandProvider?.commands.find(
+    (c) => c.startsWith(`${name}:`),
+  );
+}
+
+function isNotReadyResponse(error: unknown) {
+  return (
+    error instanceof ResponseError &&
+    (error.code === ErrorCodes.ServerNotInitialized ||
+      error.code === LSPErrorCodes.ContentModified)
+  );
+}
+
+function delay(ms: number, token: vscode.CancellationToken | undefined) {
+  return new Promise<void>((resolve) => {
+    const timer = setTimeout(() => {
+      disposable?.dispose();
+      resolve();
+    }, ms);
+    const disposable = token?.onCancellationRequested(() => {
+      clearTimeout(timer);
+      resolve();
+    });
+  });
+}
+
+async function sendCommand<T>(
+  client: LanguageClient,
+  name: string,
+  command: string,
+  args: unknown[],
+  options: ServerCommandOptions,
+): Promise<T> {
+  const timeout = options.timeout ?? defaultTimeout;
+  const tokenSource = new vscode.CancellationTokenSource();
+  const cancellationListener = options.token?.onCancellationRequested(() =>
+    tokenSource.cancel(),
+  );
+  let timedOut = false;
+  const timer =
+    timeout > 0
+      ? setTimeout(() => {
+          timedOut = true;
+          tokenSource.cancel();
+        }, timeout)
+      : undefined;
+
+  try {
+    const params: ExecuteCommandParams = { command, arguments: args };
+    return await client.sendRequest<T>(
+      ExecuteCommandRequest.method,
+      params,
+      tokenSource.token,
+    );
+  } catch (e) {
+    if (timedOut) {
+      throw new ServerCommandTimeoutError(name, timeout);
+    }
+    if (tokenSource.token.isCancellationRequested) {
+      throw new ServerCommandCancelledError(name);
+    }
+    throw e;
+  } finally {
+    clearTimeout(timer);
+    cancellationListener?.dispose();
+    tokenSource.dispose();
+  }
+}
+
+// Executes a server command on the given client. Waits for the server to become
+// ready, fails with typed errors when the command is not provided, times out or
+// is cancelled.
+export async function executeServerCommand<T>(
+  client: LanguageClient | Promise<LanguageClient>,
+  name: ServerCommandName,
+  args: unknown[],
+  options: ServerCommandOptions = {},
+): Promise<T> {
+  const resolvedClient = await client;
+  const retries = options.retries ?? defaultRetries;
+
+  for (let attempt = 0; ; attempt++) {
+    if (options.token?.isCancellationRequested) {
+      throw new ServerCommandCancelledError(name);
+    }
+
+    const ready =
+      resolvedClient.initializeResult !== undefined &&
+      resolvedClient.state === State.Running;
+    if (ready) {
+      const command = findServerCommand(resolvedClient, name);
+      if (!command) {
+        throw new ServerCommandNotSupportedError(name, resolvedClient);
+      }
+      try {
+        return await sendCommand<T>(
+          resolvedClient,
+          name,
+          command,
+          args,
+          options,
+        );
+      } catch (e) {
+        if (!isNotReadyResponse(e) || attempt >= retries) {
+          throw e;
+        }
+      }
+    } else if (attempt >= retries) {
+      throw new ServerNotReadyError(name, resolvedClient);
+    }
+
+    console.log(
+      `ElixirLS: server ${resolvedClient.name} not ready for ${name}, retrying`,
+    );
+    await delay(retryDelay * (attempt + 1), options.token);
+  }
+}
+
+// Logs a failed server command and shows it to the user. Cancellations are
+// expected and only logged.
+export function reportServerCommandError(title: string, error: unknown) {
+  if (error instanceof ServerCommandCancelledError) {
+    console.log(`ElixirLS: ${error.message}`);
+    return;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  console.error(`ElixirLS: ${title}: ${message}`);
+  reporter.sendTelemetryErrorEvent("server_command_error", {
+    "elixir_ls.server_command":
+      error instanceof ServerCommandError ? error.command : "",
+    "elixir_ls.server_command_error":
+      error instanceof Error ? error.name : "unknown",
+  });
+  vscode.window.showErrorMessage(`${title}: ${message}`);
+}
@@ -0,0 +1,97 @@
+import * as vscode from "vscode";
+
+const maxLinesPerClient = 1000;
+
+// Output channel passed to language clients that keeps the most recent lines
+// so that they can be attached to bug reports
+class RecordingOutputChannel implements vscode.OutputChannel {
+  private partialLine = "";
+
+  constructor(
+    private channel: vscode.OutputChannel,
+    private lines: string[],
+  ) {}
+
+  get name() {
+    return this.channel.name;
+  }
+
+  public append(value: string) {
+    this.channel.append(value);
+    this.record(value);
+  }
+
+  public appendLine(value: string) {
+    this.channel.appendLine(value);
+    this.record(`${value}\n`);
+  }
+
+  public replace(value: string) {
+    this.channel.replace(value);
+    this.lines.length = 0;
+    this.partialLine = "";
+    this.record(value);
+  }
+
+  public clear() {
+    this.channel.clear();
+  }
+
+  public show(
+    columnOrPreserveFocus?: vscode.ViewColumn | boolean,
+    preserveFocus?: boolean,
+  ) {
+    this.channel.show(
+      typeof columnOrPreserveFocus === "boolean"
+        ? columnOrPreserveFocus
+        : preserveFocus,
+    );
+  }
+
+  public hide() {
+    this.channel.hide();
+  }
+
+  public dispose() {
+    this.channel.dispose();
+  }
+
+  private record(value: string) {
+    const lines = (this.partialLine + value).split(/\r?\n/);
+    this.partialLine = lines.pop() ?? "";
+    this.lines.push(...lines);
+    if (this.lines.length > maxLinesPerClient) {
+      this.lines.splice(0, this.lines.length - maxLinesPerClient);
+    }
+  }
+}
+
+class ServerLogRecorder {
+  // kept across client restarts
+  private lines: Map<string | undefined, string[]> = new Map();
+
+  public createOutputChannel(
+    clientKey: string | undefined,
+    name: string,
+  ): vscode.OutputChannel {
+    let lines = this.lines.get(clientKey);
+    if (!lines) {
+      lines = [];
+      this.lines.set(clientKey, lines);
+    }
+    return new RecordingOutputChannel(
+      vscode.window.createOutputChannel(name),
+      lines,
+    );
+  }
+
+  public clientKeys(): (string | undefined)[] {
+    return [...this.lines.keys()];
+  }
+
+  public tail(clientKey: string | undefined, count: number): string[] {
+    return (this.lines.get(clientKey) ?? []).slice(-count);
+  }
+}
+
+export const serverLogRecorder = new ServerLogRecorder();
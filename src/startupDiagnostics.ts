@@ -0,0 +1,460 @@
+import { exec } from "node:child_process";
+import * as crypto from "node:crypto";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import * as vscode from "vscode";
+import { buildCommand, buildEnvironment } from "./executable";
+import { getSelectedToolchain } from "./toolchain";
+
+// Oldest Elixir version supported by the bundled ElixirLS release
+const minimumElixirVersion = "1.14.0";
+
+// Erlang/OTP releases supported by Elixir minor versions, see
+// https://hexdocs.pm/elixir/compatibility-and-deprecations.html
+// Elixir 1.14 also runs on OTP 23, which ElixirLS does not support
+const elixirOtpCompatibility: Record<string, [number, number]> = {
+  "1.14": [24, 26],
+  "1.15": [24, 26],
+  "1.16": [24, 26],
+  "1.17": [25, 27],
+  "1.18": [25, 27],
+  "1.19": [26, 28],
+};
+
+// Oldest OTP release supported by the bundled ElixirLS release
+const minimumOtpRelease = Math.min(
+  ...Object.values(elixirOtpCompatibility).map(([minimum]) => minimum),
+);
+
+const checkTimeout = 60 * 1000;
+const reportMarker = "ELIXIR_LS_STARTUP_DIAGNOSTICS";
+
+// Printed by elixir started through the check script, everything written to
+// stdout before the marker comes from the shell environment
+const probeScript = `
+rebar3 =
+  if Code.ensure_loaded?(Mix.Rebar) and function_exported?(Mix.Rebar, :rebar_cmd, 1) do
+    Mix.Rebar.rebar_cmd(:rebar3)
+  end || System.find_executable("rebar3")
+
+IO.puts("${reportMarker}")
+IO.puts("elixir=" <> System.version())
+IO.puts("otp=" <> List.to_string(:erlang.system_info(:otp_release)))
+IO.puts("elixir_otp=" <> to_string(Map.get(System.build_info(), :otp_release, "")))
+IO.puts("hex=" <> Enum.join(Path.wildcard(Path.join(Mix.path_for(:archives), "hex-*")), ","))
+IO.puts("rebar3=" <> to_string(rebar3))
+`;
+
+export type DiagnosticStatus = "ok" | "warning" | "error";
+
+export interface DiagnosticItem {
+  name: string;
+  status: DiagnosticStatus;
+  detail: string;
+  suggestion?: string;
+}
+
+export interface StartupDiagnosticsReport {
+  workspaceFolder: vscode.WorkspaceFolder | undefined;
+  items: DiagnosticItem[];
+}
+
+function compareVersions(a: string, b: string) {
+  return a.localeCompare(b, undefined, { numeric: true });
+}
+
+function findExecutable(name: string, pathValue: string): string | undefined {
+  const extensions =
+    os.platform() === "win32" ? [".bat", ".cmd", ".exe"] : [""];
+  for (const dir of pathValue.split(path.delimiter).filter(Boolean)) {
+    for (const extension of extensions) {
+      const candidate = path.join(dir, name + extension);
+      if (fs.existsSync(candidate)) {
+        return candidate;
+      }
+    }
+  }
+  return undefined;
+}
+
+function runCheckScript(
+  command: string,
+  scriptPath: string,
+  workspaceFolder: vscode.WorkspaceFolder | undefined,
+  env: NodeJS.ProcessEnv,
+): Promise<{ error?: string; stdout: string; stderr: string }> {
+  return new Promise((resolve) => {
+    exec(
+      `"${command}" "${scriptPath}"`,
+      { cwd: workspaceFolder?.uri.fsPath, env, timeout: checkTimeout },
+      (error, stdout, stderr) => {
+        resolve({ error: error?.message, stdout, stderr });
+      },
+    );
+  });
+}
+
+function parseProbeOutput(output: string) {
+  const values: Record<string, string> = {};
+  for (const line of output.split(/\r?\n/)) {
+    const separator = line.indexOf("=");
+    if (separator > 0) {
+      values[line.slice(0, separator)] = line.slice(separator + 1).trim();
+    }
+  }
+  return values;
+}
+
+function versionItems(values: Record<string, string>): DiagnosticItem[] {
+  const elixir = values.elixir;
+  if (!elixir) {
+    return [
+      {
+        name: "Elixir version",
+        status: "error",
+        detail: "unable to read versions reported by elixir",
+        suggestion:
+          "Run `elixir --version` in a terminal in the workspace folder and fix reported errors.",
+      },
+    ];
+  }
+  const items: DiagnosticItem[] = [];
+  const otp = Number.parseInt(values.otp, 10);
+
+  const elixirSupported = compareVersions(elixir, minimumElixirVersion) >= 0;
+  items.push({
+    name: "Elixir version",
+    status: elixirSupported ? "ok" : "error",
+    detail: elixir,
+    suggestion: elixirSupported
+      ? undefined
+      : `ElixirLS requires Elixir ${minimumElixirVersion} or newer. Install a newer version or select a different toolchain.`,
+  });
+
+  const otpSupported = otp >= minimumOtpRelease;
+  items.push({
+    name: "Erlang/OTP version",
+    status: otpSupported ? "ok" : "error",
+    detail: `OTP ${values.otp}`,
+    suggestion: otpSupported
+      ? undefined
+      : `ElixirLS requires Erlang/OTP ${minimumOtpRelease} or newer. Install a newer version or select a different toolchain.`,
+  });
+
+  const compiledOtp = Number.parseInt(values.elixir_otp, 10);
+  const range = elixirOtpCompatibility[elixir.split(".").slice(0, 2).join(".")];
+  if (compiledOtp > otp) {
+    items.push({
+      name: "OTP compatibility",
+      status: "error",
+      detail: `Elixir ${elixir} was compiled with OTP ${compiledOtp} but runs on OTP ${otp}`,
+      suggestion: `Install Elixir compiled for OTP ${otp} (e.g. \`${elixir}-otp-${otp}\` in asdf or mise) or upgrade Erlang/OTP.`,
+    });
+  } else if (range && (otp < range[0] || otp > range[1])) {
+    items.push({
+      name: "OTP compatibility",
+      status: "warning",
+      detail: `Elixir ${elixir} supports OTP ${range[0]} to ${range[1]}, found OTP ${otp}`,
+      suggestion: `Use an Erlang/OTP release between ${range[0]} and ${range[1]} or a matching Elixir version.`,
+    });
+  } else {
+    items.push({
+      name: "OTP compatibility",
+      status: "ok",
+      detail: compiledOtp
+        ? `Elixir ${elixir} compiled with OTP ${compiledOtp} runs on OTP ${otp}`
+        : `Elixir ${elixir} runs on OTP ${otp}`,
+    });
+  }
+
+  items.push(
+    values.hex
+      ? { name: "Hex", status: "ok", detail: values.hex }
+      : {
+          name: "Hex",
+          status: "warning",
+          detail: "Hex archive is not installed",
+          suggestion:
+            "Run `mix local.hex` with the same toolchain. Hex is needed to fetch dependencies.",
+        },
+    values.rebar3
+      ? { name: "Rebar3", status: "ok", detail: values.rebar3 }
+      : {
+          name: "Rebar3",
+          status: "warning",
+          detail: "rebar3 is not installed",
+          suggestion:
+            "Run `mix local.rebar` with the same toolchain. Rebar3 is needed to compile Erlang dependencies.",
+        },
+  );
+  return items;
+}
+
+export async function runStartupDiagnostics(
+  context: vscode.ExtensionContext,
+  workspaceFolder: vscode.WorkspaceFolder | undefined,
+): Promise<StartupDiagnosticsReport> {
+  const items: DiagnosticItem[] = [];
+  const env = { ...process.env, ...buildEnvironment(workspaceFolder) };
+  const pathValue = env.PATH ?? env.Path ?? "";
+  const toolchain = getSelectedToolchain(workspaceFolder)?.label ?? "PATH";
+
+  const elixirExecutable = findExecutable("elixir", pathValue);
+  items.push({
+    name: "PATH",
+    status: elixirExecutable ? "ok" : "warning",
+    detail: `Toolchain: ${toolchain}\nelixir: ${
+      elixirExecutable ?? "not found"
+    }\n${pathValue.split(path.delimiter).join("\n")}`,
+    suggestion: elixirExecutable
+      ? undefined
+      : "elixir is not in PATH. The launch script can still find it through asdf, mise or other version managers. If VS Code was started from a desktop launcher it may not inherit the shell PATH, start it from a terminal or select a toolchain with `Select Elixir toolchain`.",
+  });
+
+  // Use the same script infrastructure as the language server to ensure
+  // consistent environment setup (version managers, etc.)
+  const checkCommand = buildCommand(context, "elixir_check", workspaceFolder);
+  const scriptExists = fs.existsSync(checkCommand);
+  items.push({
+    name: "Launch script",
+    status: scriptExists ? "ok" : "error",
+    detail: checkCommand,
+    suggestion: scriptExists
+      ? undefined
+      : "The check script does not exist. Verify `elixirLS.languageServerOverridePath` points to an ElixirLS release or reinstall the extension.",
+  });
+  if (!scriptExists) {
+    return { workspaceFolder, items };
+  }
+
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "elixir-ls-"));
+  let result: Awaited<ReturnType<typeof runCheckScript>>;
+  try {
+    const scriptPath = path.join(dir, "startup_diagnostics.exs");
+    fs.writeFileSync(scriptPath, probeScript);
+    result = await runCheckScript(
+      checkCommand,
+      scriptPath,
+      workspaceFolder,
+      env,
+    );
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+
+  const markerIndex = result.stdout.indexOf(reportMarker);
+  if (result.error || markerIndex === -1) {
+    items.push({
+      name: "Elixir check",
+      status: "error",
+      detail: [result.error, result.stderr, result.stdout]
+        .filter(Boolean)
+        .join("\n"),
+      suggestion:
+        "Running elixir through the launch script failed. Make sure Elixir and Erlang are installed and can be run from a terminal in the workspace folder, or select a toolchain with `Select Elixir toolchain`.",
+    });
+    return { workspaceFolder, items };
+  }
+  items.push({
+    name: "Elixir check",
+    status: "ok",
+    detail: "elixir started through the launch script",
+  });
+
+  const noise = result.stdout.slice(0, markerIndex).trim();
+  items.push(
+    noise
+      ? {
+          name: "Shell output",
+          status: "error",
+          detail: noise,
+          suggestion:
+            "The launch script printed to stdout, which breaks communication with the language server. Remove output from shell profile files (e.g. `~/.bashrc`, `~/.zshrc`) or print only in interactive shells.",
+        }
+      : {
+          name: "Shell output",
+          status: "ok",
+          detail: "no extraneous output",
+        },
+  );
+
+  items.push(
+    ...versionItems(parseProbeOutput(result.stdout.slice(markerIndex))),
+  );
+  return { workspaceFolder, items };
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+const statusIcons: Record<DiagnosticStatus, string> = {
+  ok: "✔",
+  warning: "⚠",
+  error: "✖",
+};
+
+function getWebviewContent(
+  report: StartupDiagnosticsReport,
+  webview: vscode.Webview,
+) {
+  const nonce = crypto.randomBytes(16).toString("base64");
+  const rows = report.items
+    .map(
+      (item) => `<tr class="${item.status}">
+      <td class="status">${statusIcons[item.status]}</td>
+      <td><strong>${escapeHtml(item.name)}</strong></td>
+      <td>
+        <pre>${escapeHtml(item.detail)}</pre>
+        ${item.suggestion ? `<p class="suggestion">${escapeHtml(item.suggestion)}</p>` : ""}
+      </td>
+    </tr>`,
+    )
+    .join("\n");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>ElixirLS startup diagnostics</title>
+    <style>
+      table { border-collapse: collapse; width: 100%; }
+      td { vertical-align: top; padding: 6px; border-bottom: 1px solid var(--vscode-panel-border); }
+      pre { margin: 0; white-space: pre-wrap; word-break: break-all; }
+      .status { width: 1.5em; }
+      .ok .status { color: var(--vscode-testing-iconPassed); }
+      .warning .status { color: var(--vscode-editorWarning-foreground); }
+      .error .status { color: var(--vscode-editorError-foreground); }
+      .suggestion { margin: 6px 0 0; color: var(--vscode-textLink-foreground); }
+    </style>
+</head>
+<body>
+  <h3>ElixirLS startup diagnostics for ${escapeHtml(
+    report.workspaceFolder?.name ?? "files outside workspace",
+  )}</h3>
+  <button id="rerun">Re-run diagnostics</button>
+  <table>
+    ${rows}
+  </table>
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    document.getElementById("rerun").addEventListener("click", () => {
+      vscode.postMessage({ command: "rerun" });
+    });
+  </script>
+</body>
+</html>`;
+}
+
+let panel: vscode.WebviewPanel | undefined;
+let panelWorkspaceFolder: vscode.WorkspaceFolder | undefined;
+
+async function showStartupDiagnostics(
+  context: vscode.ExtensionContext,
+  workspaceFolder: vscode.WorkspaceFolder | undefined,
+  report?: StartupDiagnosticsReport,
+) {
+  panelWorkspaceFolder = workspaceFolder;
+  if (panel) {
+    panel.reveal();
+  } else {
+    panel = vscode.window.createWebviewPanel(
+      "elixirLSStartupDiagnostics",
+      "ElixirLS startup diagnostics",
+      vscode.ViewColumn.One,
+      { enableScripts: true },
+    );
+    panel.onDidDispose(() => {
+      panel = undefined;
+    });
+    panel.webview.onDidReceiveMessage((message: { command: string }) => {
+      if (message.command === "rerun") {
+        void showStartupDiagnostics(context, panelWorkspaceFolder);
+      }
+    });
+  }
+
+  const shownPanel = panel;
+  const shownReport =
+    report ??
+    (await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: "ElixirLS: running startup diagnostics",
+      },
+      () => runStartupDiagnostics(context, workspaceFolder),
+    ));
+  shownPanel.webview.html = getWebviewContent(shownReport, shownPanel.webview);
+}
+
+async function reportStartupProblems(
+  context: vscode.ExtensionContext,
+  workspaceFolder: vscode.WorkspaceFolder | undefined,
+): Promise<boolean> {
+  const report = await runStartupDiagnostics(context, workspaceFolder);
+  for (const item of report.items) {
+    if (item.status !== "ok") {
+      console.warn(
+        `ElixirLS: startup diagnostics ${item.name} ${item.status}: ${item.detail}`,
+      );
+    }
+  }
+
+  const failed = report.items.filter((item) => item.status === "error");
+  if (failed.length === 0) {
+    return true;
+  }
+  const selection = await vscode.window.showErrorMessage(
+    `ElixirLS will probably fail to launch: ${failed
+      .map((item) => item.name)
+      .join(", ")} check failed.`,
+    "Show Diagnostics",
+  );
+  if (selection === "Show Diagnostics") {
+    await showStartupDiagnostics(context, workspaceFolder, report);
+  }
+  return false;
+}
+
+// Runs diagnostics in the background and offers the report when a check fails.
+// Errors are logged, callers do not wait for the result.
+export async function checkStartup(
+  context: vscode.ExtensionContext,
+  workspaceFolder: vscode.WorkspaceFolder | undefined,
+): Promise<boolean> {
+  try {
+    return await reportStartupProblems(context, workspaceFolder);
+  } catch (e) {
+    console.error("ElixirLS: unable to run startup diagnostics", e);
+    return false;
+  }
+}
+
+export function configureStartupDiagnostics(context: vscode.ExtensionContext) {
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "extension.showStartupDiagnostics",
+      async () => {
+        const folders = vscode.workspace.workspaceFolders ?? [];
+        let folder: vscode.WorkspaceFolder | undefined = folders[0];
+        if (folders.length > 1) {
+          folder = await vscode.window.showWorkspaceFolderPick({
+            placeHolder: "Select workspace folder",
+          });
+          if (!folder) {
+            return;
+          }
+        }
+        await showStartupDiagnostics(context, folder);
+      },
+    ),
+    { dispose: () => panel?.dispose() },
+  );
+}
@@ -1,139 +1,186 @@
 import * as vscode from "vscode";
-import { getProjectDir } from "./project";
+import { buildEnvironment } from "./executable";
+import {
+  type MixProject,
+  type WorkspaceTracker,
+  getProjectDir,
+} from "./project";
+import { isWorkspaceTrusted } from "./workspaceTrust";
+
+export interface MixTaskSpec {
+  name: string;
+  command: string;
+  group?: vscode.TaskGroup;
+  matchers?: string[];
+  // provided for every app of umbrella projects as well
+  perApp?: boolean;
+}
+
+// TODO make sure that problem matchers are working
+export const mixTaskSpecs: MixTaskSpec[] = [
+  {
+    name: "Run tests",
+    command: "mix test",
+    group: vscode.TaskGroup.Test,
+    perApp: true,
+    matchers: ["$mixCompileError", "$mixCompileWarning", "$mixTestFailure"],
+  },
+  {
+    name: "Run tests with coverage",
+    command: "mix test.coverage",
+    group: vscode.TaskGroup.Test,
+    matchers: ["$mixCompileError", "$mixCompileWarning", "$mixTestFailure"],
+  },
+  {
+    name: "Run test at cursor",
+    command: "mix test ${relativeFile}:${lineNumber}",
+    group: vscode.TaskGroup.Test,
+    matchers: ["$mixCompileError", "$mixCompileWarning", "$mixTestFailure"],
+  },
+  {
+    name: "Run tests in current file",
+    command: "mix test ${relativeFile}",
+    group: vscode.TaskGroup.Test,
+    matchers: ["$mixCompileError", "$mixCompileWarning", "$mixTestFailure"],
+  },
+  {
+    name: "Build",
+    command: "mix compile",
+    group: vscode.TaskGroup.Build,
+    perApp: true,
+    matchers: ["$mixCompileError", "$mixCompileWarning"],
+  },
+  {
+    name: "Build dependencies",
+    command: "mix deps.compile",
+    group: vscode.TaskGroup.Build,
+    matchers: ["$mixCompileError", "$mixCompileWarning"],
+  },
+  {
+    name: "Clean project",
+    command: "mix clean",
+    group: vscode.TaskGroup.Clean,
+  },
+  {
+    name: "Clean project and deps",
+    command: "mix clean --deps",
+    group: vscode.TaskGroup.Clean,
+  },
+  {
+    name: "Print app tree",
+    command: "mix app.tree",
+  },
+  {
+    name: "List deps",
+    command: "mix deps",
+  },
+  {
+    name: "Clean all deps",
+    command: "mix deps.clean --all",
+    group: vscode.TaskGroup.Clean,
+  },
+  {
+    name: "Clean all unused deps",
+    command: "mix deps.clean --unlock --unused",
+    group: vscode.TaskGroup.Clean,
+  },
+  {
+    name: "Get deps",
+    command: "mix deps.get",
+  },
+  {
+    name: "Update all deps",
+    command: "mix deps.update --all",
+  },
+  {
+    name: "Format",
+    command: "mix format",
+  },
+  {
+    name: "Run",
+    command: "mix run",
+  },
+  {
+    name: "Run no halt",
+    command: "mix run --no-halt",
+  },
+  {
+    name: "Generates sample files for releases",
+    command: "mix release.init",
+  },
+  {
+    name: "Trace file dependencies",
+    command: "mix xref trace ${relativeFile}",
+  },
+  {
+    name: "Print file dependency graph",
+    command: "mix xref graph",
+  },
+];
+
+// Creates a task running the spec in a Mix project or umbrella app directory
+export function createMixTask(
+  spec: MixTaskSpec,
+  folder: vscode.WorkspaceFolder,
+  cwd: string,
+  app?: MixProject,
+): vscode.Task {
+  const task = new vscode.Task(
+    app
+      ? { type: TaskProvider.TaskType, task: spec.name, app: app.name }
+      : { type: TaskProvider.TaskType, task: spec.name },
+    folder,
+    app ? `${spec.name} (${app.name})` : spec.name,
+    TaskProvider.TaskType,
+    new vscode.ShellExecution(spec.command, {
+      cwd,
+      env: buildEnvironment(folder),
+    }),
+    spec.matchers,
+  );
+
+  if (spec.group) {
+    task.group = spec.group;
+  }
+
+  return task;
+}
 
 export class TaskProvider implements vscode.TaskProvider {
   // Referenced in package.json::taskDefinitions
   static TaskType = "mix";
 
+  constructor(private workspaceTracker: WorkspaceTracker) {}
+
   public provideTasks(): vscode.Task[] {
+    // Mix tasks run project code
+    if (!isWorkspaceTrusted()) {
+      return [];
+    }
+
     const wsFolders = vscode.workspace.workspaceFolders;
     if (!wsFolders || wsFolders.length === 0) {
       vscode.window.showErrorMessage("no workspace open...");
       return [];
     }
 
-    // TODO make sure that problem matchers are working
-    // TODO better handle multi root workspaces
-
     const tasks = [];
 
-    const taskSpecs = [
-      {
-        name: "Run tests",
-        command: "mix test",
-        group: vscode.TaskGroup.Test,
-        matchers: ["$mixCompileError", "$mixCompileWarning", "$mixTestFailure"],
-      },
-      {
-        name: "Run tests with coverage",
-        command: "mix test.coverage",
-        group: vscode.TaskGroup.Test,
-        matchers: ["$mixCompileError", "$mixCompileWarning", "$mixTestFailure"],
-      },
-      {
-        name: "Run test at cursor",
-        command: "mix test ${relativeFile}:${lineNumber}",
-        group: vscode.TaskGroup.Test,
-        matchers: ["$mixCompileError", "$mixCompileWarning", "$mixTestFailure"],
-      },
-      {
-        name: "Run tests in current file",
-        command: "mix test ${relativeFile}",
-        group: vscode.TaskGroup.Test,
-        matchers: ["$mixCompileError", "$mixCompileWarning", "$mixTestFailure"],
-      },
-      {
-        name: "Build",
-        command: "mix compile",
-        group: vscode.TaskGroup.Build,
-        matchers: ["$mixCompileError", "$mixCompileWarning"],
-      },
-      {
-        name: "Build dependencies",
-        command: "mix deps.compile",
-        group: vscode.TaskGroup.Build,
-        matchers: ["$mixCompileError", "$mixCompileWarning"],
-      },
-      {
-        name: "Clean project",
-        command: "mix clean",
-        group: vscode.TaskGroup.Clean,
-      },
-      {
-        name: "Clean project and deps",
-        command: "mix clean --deps",
-        group: vscode.TaskGroup.Clean,
-      },
-      {
-        name: "Print app tree",
-        command: "mix app.tree",
-      },
-      {
-        name: "List deps",
-        command: "mix deps",
-      },
-      {
-        name: "Clean all deps",
-        command: "mix deps.clean --all",
-        group: vscode.TaskGroup.Clean,
-      },
-      {
-        name: "Clean all unused deps",
-        command: "mix deps.clean --unlock --unused",
-        group: vscode.TaskGroup.Clean,
-      },
-      {
-        name: "Get deps",
-        command: "mix deps.get",
-      },
-      {
-        name: "Update all deps",
-        command: "mix deps.update --all",
-      },
-      {
-        name: "Format",
-        command: "mix format",
-      },
-      {
-        name: "Run",
-        command: "mix run",
-      },
-      {
-        name: "Run no halt",
-        command: "mix run --no-halt",
-      },
-      {
-        name: "Generates sample files for releases",
-        command: "mix release.init",
-      },
-      {
-        name: "Trace file dependencies",
-        command: "mix xref trace ${relativeFile}",
-      },
-      {
-        name: "Print file dependency graph",
-        command: "mix xref graph",
-      },
-    ];
-
     for (const folder of wsFolders) {
       const projectDir = getProjectDir(folder);
 
-      for (const spec of taskSpecs) {
-        const task = new vscode.Task(
-          { type: TaskProvider.TaskType, task: spec.name },
-          folder,
-          spec.name,
-          TaskProvider.TaskType,
-          new vscode.ShellExecution(spec.command, { cwd: projectDir }),
-          spec.matchers,
-        );
+      for (const spec of mixTaskSpecs) {
+        tasks.push(createMixTask(spec, folder, projectDir));
+      }
+    }
 
-        if (spec.group) {
-          task.group = spec.group;
+    for (const project of this.workspaceTracker.getMixProjects()) {
+      for (const app of project.apps) {
+        for (const spec of mixTaskSpecs.filter((spec) => spec.perApp)) {
+          tasks.push(
+            createMixTask(spec, project.workspaceFolder, app.dir, app),
+          );
         }
-
-        tasks.push(task);
       }
     }
 
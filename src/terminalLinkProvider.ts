@@ -1,5 +1,7 @@
+import * as fs from "node:fs";
 import * as path from "node:path";
 import * as vscode from "vscode";
+import { type WorkspaceTracker, findMixApp } from "./project";
 
 interface TerminalLinkWithData extends vscode.TerminalLink {
   data: {
@@ -9,8 +11,39 @@ interface TerminalLinkWithData extends vscode.TerminalLink {
   };
 }
 
+// Candidate paths of a file reported relative to an OTP app - the app itself
+// (project or umbrella app), one of the project dependencies or the project root
+function resolveAppFile(
+  workspaceTracker: WorkspaceTracker,
+  app: string,
+  file: string,
+): vscode.Uri[] {
+  const projects = workspaceTracker.getMixProjects();
+  const candidates: string[] = [];
+
+  const appProject = findMixApp(projects, app);
+  if (appProject) {
+    candidates.push(path.join(appProject.dir, file));
+  }
+  for (const project of projects) {
+    for (const mixProject of [project, ...project.apps]) {
+      const dep = mixProject.deps.find((dep) => dep.name === app && dep.path);
+      if (dep?.path) {
+        candidates.push(path.resolve(mixProject.dir, dep.path, file));
+      }
+    }
+    candidates.push(path.join(project.dir, "deps", app, file));
+    candidates.push(path.join(project.dir, file));
+  }
+
+  return [...new Set(candidates)]
+    .filter((candidate) => fs.existsSync(candidate))
+    .map((candidate) => vscode.Uri.file(candidate));
+}
+
 export function configureTerminalLinkProvider(
   context: vscode.ExtensionContext,
+  workspaceTracker: WorkspaceTracker,
 ) {
   async function openUri(uri: vscode.Uri, line: number) {
     const document = await vscode.workspace.openTextDocument(uri);
@@ -59,11 +92,11 @@ export function configureTerminalLinkProvider(
           openUri(absUri, line);
         }
       } else {
-        const umbrellaFile = path.join("apps", app, file);
-        const depsFile = path.join("deps", app, file);
-        const uris = await vscode.workspace.findFiles(
-          `{${umbrellaFile},${file},${depsFile}}`,
-        );
+        let uris = resolveAppFile(workspaceTracker, app, file);
+        if (uris.length === 0) {
+          // not a Mix project known to the workspace tracker
+          uris = await vscode.workspace.findFiles(file);
+        }
         if (uris.length === 1) {
           openUri(uris[0], line);
         } else if (uris.length > 1) {
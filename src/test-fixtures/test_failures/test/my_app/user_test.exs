@@ -0,0 +1,16 @@
+defmodule MyApp.UserTest do
+  use ExUnit.Case, async: true
+
+  alias MyApp.User
+
+  defp build_user do
+    User.build()
+  end
+
+  @tag :unit
+  @tag timeout: 1000
+  test "builds the user" do
+    # the default user has no roles
+    assert build_user() == %{name: "John", roles: [:admin]}
+  end
+end
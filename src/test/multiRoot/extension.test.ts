@@ -8,6 +8,7 @@ import type { ElixirLS } from "../../extension";
 import { WorkspaceMode } from "../../project";
 import {
   getExtension,
+  sleep,
   waitForLanguageClientManagerUpdate,
   waitForNoLanguageClientManagerUpdate,
   waitForWorkspaceUpdate,
@@ -33,6 +34,48 @@ suite("Multi root workspace tests", () => {
     assert.equal(extension.exports.languageClientManager.clients.size, 0);
   }).timeout(30000);
 
+  test("public api reports folder with no running client as not ready", async () => {
+    const api = extension.exports.getApi(1);
+    const fileUri = vscode.Uri.file(
+      path.join(fixturesPath, "single_folder_no_mix", "elixir_script.exs"),
+    );
+
+    assert.ok(!api.isServerReady(fileUri));
+    await assert.rejects(
+      api.executeServerCommand(fileUri, "expandMacro", []),
+      (error: Error) => error.name === "ServerNotReadyError",
+    );
+
+    // waits until a document of the folder is opened
+    let ready = false;
+    api.whenServerReady(fileUri).then(
+      () => {
+        ready = true;
+      },
+      () => undefined,
+    );
+    await sleep(100);
+    assert.ok(!ready);
+  }).timeout(30000);
+
+  test("workspace tracker reads umbrella apps of outermost folders", async () => {
+    const umbrella = extension.exports.workspaceTracker
+      .getMixProjects()
+      .find(
+        (project) => project.dir === path.join(fixturesPath, "sample_umbrella"),
+      );
+
+    assert.ok(umbrella);
+    assert.equal(umbrella.app, undefined);
+    assert.deepEqual(
+      umbrella.apps.map((app) => app.app),
+      ["child1", "child2"],
+    );
+    assert.deepEqual(umbrella.configFiles, [
+      path.join(fixturesPath, "sample_umbrella", "config", "config.exs"),
+    ]);
+  }).timeout(30000);
+
   test("extension starts first client on file open", async () => {
     const fileUri = vscode.Uri.file(
       path.join(fixturesPath, "sample_umbrella", "mix.exs"),
@@ -268,4 +311,78 @@ suite("Multi root workspace tests", () => {
       ),
     );
   }).timeout(30000);
+
+  test("nested Mix projects are not discovered by default", async () => {
+    const containingFolder = vscode.workspace.getWorkspaceFolder(
+      vscode.Uri.file(path.join(fixturesPath, "containing_folder")),
+    );
+    assert.ok(containingFolder);
+
+    await extension.exports.workspaceTracker.handleDidChangeMixProjects();
+
+    assert.deepEqual(
+      extension.exports.workspaceTracker.getNestedMixProjects(containingFolder),
+      [],
+    );
+  }).timeout(30000);
+
+  test("documents are routed to nested Mix projects if discoverNestedProjects is true", async () => {
+    const containingFolder = vscode.workspace.getWorkspaceFolder(
+      vscode.Uri.file(path.join(fixturesPath, "containing_folder")),
+    );
+    assert.ok(containingFolder);
+    const nestedProjectDir = path.join(
+      fixturesPath,
+      "containing_folder",
+      "single_folder_mix",
+    );
+
+    await vscode.workspace
+      .getConfiguration("elixirLS")
+      .update(
+        "discoverNestedProjects",
+        true,
+        vscode.ConfigurationTarget.Workspace,
+      );
+    try {
+      await extension.exports.workspaceTracker.handleDidChangeMixProjects();
+
+      assert.deepEqual(
+        extension.exports.workspaceTracker.getNestedMixProjects(
+          containingFolder,
+        ),
+        [nestedProjectDir],
+      );
+      assert.equal(
+        extension.exports.workspaceTracker.getClientFolder(
+          containingFolder,
+          vscode.Uri.file(
+            path.join(nestedProjectDir, "lib", "single_folder_mix.ex"),
+          ),
+        ).uri.fsPath,
+        nestedProjectDir,
+      );
+      // documents outside of nested projects stay with the workspace folder
+      assert.equal(
+        extension.exports.workspaceTracker
+          .getClientFolder(
+            containingFolder,
+            vscode.Uri.file(
+              path.join(fixturesPath, "containing_folder", "script.exs"),
+            ),
+          )
+          .uri.toString(),
+        containingFolder.uri.toString(),
+      );
+    } finally {
+      await vscode.workspace
+        .getConfiguration("elixirLS")
+        .update(
+          "discoverNestedProjects",
+          undefined,
+          vscode.ConfigurationTarget.Workspace,
+        );
+      await extension.exports.workspaceTracker.handleDidChangeMixProjects();
+    }
+  }).timeout(30000);
 });
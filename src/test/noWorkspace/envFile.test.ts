@@ -0,0 +1,57 @@
+import * as assert from "node:assert";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { parseEnvFile } from "../../envFile";
+
+const fixturesPath = path.resolve(__dirname, "../../../src/test-fixtures");
+
+suite("Env file parsing tests", () => {
+  const contents = fs.readFileSync(
+    path.join(fixturesPath, "env_file", "sample.env"),
+    "utf8",
+  );
+
+  test("parses assignments and skips comments and unsupported lines", () => {
+    const env = parseEnvFile(contents, { BASE_VARIABLE: "base" });
+
+    assert.deepEqual(Object.keys(env), [
+      "DATABASE_HOST",
+      "DATABASE_PORT",
+      "DATABASE_URL",
+      "GREETING",
+      "LITERAL",
+      "FALLBACK",
+      "FROM_BASE",
+    ]);
+    assert.equal(env.DATABASE_HOST, "localhost");
+    assert.equal(env.DATABASE_PORT, "5432");
+  });
+
+  test("resolves references in unquoted and double quoted values", () => {
+    const env = parseEnvFile(contents, { BASE_VARIABLE: "base" });
+
+    assert.equal(env.DATABASE_URL, "postgres://localhost:5432/app");
+    assert.equal(env.FALLBACK, "fallback");
+    assert.equal(env.FROM_BASE, "base");
+  });
+
+  test("unescapes double quoted values", () => {
+    const env = parseEnvFile(contents, {});
+
+    assert.equal(env.GREETING, 'hello "world"\nbye');
+  });
+
+  test("takes single quoted values literally", () => {
+    const env = parseEnvFile(contents, {});
+
+    assert.equal(env.LITERAL, "${DATABASE_HOST} is not $EXPANDED");
+  });
+
+  test("variables defined in the file take precedence over the base environment", () => {
+    const env = parseEnvFile('PORT=4000\nURL="http://localhost:$PORT"', {
+      PORT: "80",
+    });
+
+    assert.equal(env.URL, "http://localhost:4000");
+  });
+});
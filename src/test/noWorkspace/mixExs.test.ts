@@ -0,0 +1,110 @@
+import * as assert from "node:assert";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { parseMixExs } from "../../project";
+
+const fixturesPath = path.resolve(__dirname, "../../../src/test-fixtures");
+
+suite("mix.exs parsing tests", () => {
+  test("parses umbrella project", () => {
+    const info = parseMixExs(
+      fs.readFileSync(
+        path.join(fixturesPath, "sample_umbrella", "mix.exs"),
+        "utf8",
+      ),
+    );
+
+    assert.equal(info.app, undefined);
+    assert.equal(info.appsPath, "apps");
+    assert.deepEqual(info.deps, []);
+  });
+
+  test("parses umbrella app and skips commented out deps", () => {
+    const info = parseMixExs(
+      fs.readFileSync(
+        path.join(fixturesPath, "sample_umbrella", "apps", "child1", "mix.exs"),
+        "utf8",
+      ),
+    );
+
+    assert.equal(info.app, "child1");
+    assert.equal(info.appsPath, undefined);
+    assert.equal(info.configPath, "../../config/config.exs");
+    assert.deepEqual(info.deps, []);
+  });
+
+  test("parses custom apps_path", () => {
+    const info = parseMixExs(`
+defmodule Platform.MixProject do
+  use Mix.Project
+
+  def project do
+    [apps_path: "services", version: "0.1.0", deps: deps()]
+  end
+
+  defp deps, do: []
+end
+`);
+
+    assert.equal(info.app, undefined);
+    assert.equal(info.appsPath, "services");
+  });
+
+  test("parses project/0 and deps spanning multiple lines", () => {
+    const info = parseMixExs(`
+defmodule Api.MixProject do
+  use Mix.Project
+
+  def project do
+    [
+      app:
+        :api,
+      version: "0.1.0",
+      config_path:
+        "../config/config.exs",
+      deps: deps()
+    ]
+  end
+
+  defp deps() do
+    [
+      {:jason, "~> 1.4"},
+      {:shared,
+       path: "../shared"},
+      {:core, in_umbrella: true},
+      {:plug, github: "elixir-plug/plug", only: :test}
+    ]
+  end
+end
+`);
+
+    assert.equal(info.app, "api");
+    assert.equal(info.configPath, "../config/config.exs");
+    assert.deepEqual(info.deps, [
+      {
+        name: "jason",
+        requirement: "~> 1.4",
+        inUmbrella: false,
+        path: undefined,
+      },
+      {
+        name: "shared",
+        requirement: undefined,
+        inUmbrella: false,
+        path: "../shared",
+      },
+      {
+        name: "core",
+        requirement: undefined,
+        inUmbrella: true,
+        path: undefined,
+      },
+      {
+        name: "plug",
+        requirement: undefined,
+        inUmbrella: false,
+        path: undefined,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,42 @@
+import * as assert from "node:assert";
+import { parseServerAddress } from "../../languageClientManager";
+
+suite("Language server address parsing tests", () => {
+  test("parses host and port", () => {
+    assert.deepEqual(parseServerAddress("example.com:9000"), {
+      host: "example.com",
+      port: 9000,
+    });
+    assert.deepEqual(parseServerAddress("127.0.0.1:9000"), {
+      host: "127.0.0.1",
+      port: 9000,
+    });
+  });
+
+  test("parses bracketed IPv6 host and port", () => {
+    assert.deepEqual(parseServerAddress("[::1]:9000"), {
+      host: "::1",
+      port: 9000,
+    });
+    assert.deepEqual(parseServerAddress("[fe80::1%eth0]:9000"), {
+      host: "fe80::1%eth0",
+      port: 9000,
+    });
+  });
+
+  test("connects to localhost when only port is given", () => {
+    assert.deepEqual(parseServerAddress("9000"), {
+      host: "localhost",
+      port: 9000,
+    });
+  });
+
+  test("treats other addresses as socket paths", () => {
+    assert.deepEqual(parseServerAddress("/tmp/elixir-ls.sock"), {
+      path: "/tmp/elixir-ls.sock",
+    });
+    assert.deepEqual(parseServerAddress("\\\\.\\pipe\\elixir-ls"), {
+      path: "\\\\.\\pipe\\elixir-ls",
+    });
+  });
+});
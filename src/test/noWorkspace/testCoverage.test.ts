@@ -0,0 +1,137 @@
+import * as assert from "node:assert";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import * as vscode from "vscode";
+import {
+  coverageExportName,
+  mergeCoverage,
+  parseLcov,
+  readTestCoverage,
+} from "../../testCoverage";
+
+const fixturesPath = path.resolve(__dirname, "../../../src/test-fixtures");
+const projectDir = path.resolve("/project");
+
+function readLcov() {
+  return fs.readFileSync(path.join(fixturesPath, "lcov", "lcov.info"), "utf8");
+}
+
+suite("Test coverage parsing tests", () => {
+  test("parses line and function records of every source file", () => {
+    const data = parseLcov(readLcov(), projectDir);
+
+    assert.deepEqual(
+      [...data.keys()],
+      [
+        path.join(projectDir, "lib", "my_app", "math.ex"),
+        path.resolve("/abs/lib/other.ex"),
+      ],
+    );
+    const math = data.get(path.join(projectDir, "lib", "my_app", "math.ex"));
+    assert.deepEqual(
+      [...(math?.lines ?? [])],
+      [
+        [2, 3],
+        [3, 3],
+        [6, 0],
+        [7, 0],
+      ],
+    );
+    assert.deepEqual(
+      [...(math?.functions ?? [])],
+      [
+        ["add/2", { line: 2, hits: 3 }],
+        ["div,safe/2", { line: 6, hits: 0 }],
+      ],
+    );
+  });
+
+  test("merges hit counts of several runs", () => {
+    const data = parseLcov(readLcov(), projectDir);
+    mergeCoverage(data, parseLcov(readLcov(), projectDir));
+    mergeCoverage(
+      data,
+      parseLcov("SF:lib/new.ex\nDA:1,2\nend_of_record\n", projectDir),
+    );
+
+    const math = data.get(path.join(projectDir, "lib", "my_app", "math.ex"));
+    assert.equal(math?.lines.get(2), 6);
+    assert.equal(math?.lines.get(6), 0);
+    assert.deepEqual(math?.functions.get("add/2"), { line: 2, hits: 6 });
+    assert.equal(
+      data.get(path.join(projectDir, "lib", "new.ex"))?.lines.get(1),
+      2,
+    );
+  });
+});
+
+suite("Test coverage reading tests", () => {
+  let tmpDir: string;
+  // cover data is exported with the launch script only when it is fresh
+  const context = {} as vscode.ExtensionContext;
+
+  function writeCoverFile(dir: string, name: string, modified?: Date) {
+    const file = path.join(dir, "cover", name);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, readLcov());
+    if (modified) {
+      fs.utimesSync(file, modified, modified);
+    }
+  }
+
+  function workspaceFolder(): vscode.WorkspaceFolder {
+    return { uri: vscode.Uri.file(tmpDir), name: "project", index: 0 };
+  }
+
+  setup(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "elixir-ls-coverage-"));
+  });
+
+  teardown(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test("reads lcov of the project and umbrella apps written since the run started", async () => {
+    const since = Date.now() - 1000;
+    const appDir = path.join(tmpDir, "apps", "child");
+    writeCoverFile(tmpDir, "lcov.info");
+    writeCoverFile(appDir, "lcov.info");
+    // left from an earlier run, lcov is used instead
+    writeCoverFile(
+      tmpDir,
+      `${coverageExportName}.coverdata`,
+      new Date(since - 60 * 1000),
+    );
+
+    const data = await readTestCoverage(
+      context,
+      workspaceFolder(),
+      tmpDir,
+      since,
+    );
+
+    assert.equal(
+      data.get(path.join(tmpDir, "lib", "my_app", "math.ex"))?.lines.get(2),
+      3,
+    );
+    assert.equal(
+      data.get(path.join(appDir, "lib", "my_app", "math.ex"))?.lines.get(2),
+      3,
+    );
+  });
+
+  test("ignores lcov left from an earlier run", async () => {
+    const since = Date.now();
+    writeCoverFile(tmpDir, "lcov.info", new Date(since - 60 * 1000));
+
+    const data = await readTestCoverage(
+      context,
+      workspaceFolder(),
+      tmpDir,
+      since,
+    );
+
+    assert.equal(data.size, 0);
+  });
+});
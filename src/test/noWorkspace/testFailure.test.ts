@@ -0,0 +1,147 @@
+import * as assert from "node:assert";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import {
+  buildTestFailureMessage,
+  findProjectApps,
+  parseTestFailure,
+} from "../../testFailure";
+
+const fixturesPath = path.resolve(__dirname, "../../../src/test-fixtures");
+const cwd = path.join(fixturesPath, "test_failures");
+
+function readFailure(name: string) {
+  return fs.readFileSync(
+    path.join(fixturesPath, "test_failures", name),
+    "utf8",
+  );
+}
+
+suite("Test failure parsing tests", () => {
+  test("parses assertion values", () => {
+    const failure = parseTestFailure(readFailure("assertion.txt"));
+
+    assert.equal(failure.left, '%{\n  name: "Jane",\n  roles: []\n}');
+    assert.equal(failure.right, '%{name: "John", roles: [:admin]}');
+  });
+
+  test("parses test location and stacktrace", () => {
+    const failure = parseTestFailure(readFailure("assertion.txt"));
+
+    assert.deepEqual(failure.testLocation, {
+      file: "test/my_app/user_test.exs",
+      line: 12,
+    });
+    assert.deepEqual(failure.stacktrace, [
+      {
+        app: "my_app",
+        file: "lib/my_app/user.ex",
+        line: 8,
+        label: "MyApp.User.build/0",
+      },
+      {
+        app: undefined,
+        file: "test/my_app/user_test.exs",
+        line: 14,
+        label: "(test)",
+      },
+    ]);
+  });
+
+  test("parses errors without assertion values", () => {
+    const failure = parseTestFailure(readFailure("error.txt"));
+
+    assert.equal(failure.left, undefined);
+    assert.equal(failure.right, undefined);
+    assert.deepEqual(
+      failure.stacktrace.map((frame) => [frame.app, frame.file, frame.line]),
+      [
+        ["elixir", "lib/string.ex", 10],
+        [undefined, "test/my_app/parser_test.exs", 6],
+      ],
+    );
+  });
+
+  test("builds assertion diff located at the failing assertion", () => {
+    const message = buildTestFailureMessage(
+      readFailure("assertion.txt"),
+      "test/my_app/user_test.exs",
+      cwd,
+      findProjectApps(cwd),
+    );
+    const testFile = path.join(cwd, "test", "my_app", "user_test.exs");
+
+    assert.equal(message.expectedOutput, '%{name: "John", roles: [:admin]}');
+    assert.equal(message.actualOutput, '%{\n  name: "Jane",\n  roles: []\n}');
+    assert.equal(message.location?.uri.fsPath, testFile);
+    assert.equal(message.location?.range.start.line, 13);
+    // frames of files missing in the project are not linked
+    assert.deepEqual(
+      message.stackTrace?.map((frame) => [
+        frame.label,
+        frame.uri?.fsPath,
+        frame.position?.line,
+      ]),
+      [
+        ["MyApp.User.build/0 (my_app)", undefined, undefined],
+        ["(test)", testFile, 13],
+      ],
+    );
+  });
+
+  test("locates errors at the test definition when the test file frame is not found", () => {
+    const message = buildTestFailureMessage(
+      readFailure("error.txt"),
+      "test/my_app/parser_test.exs",
+      cwd,
+      findProjectApps(cwd),
+    );
+
+    assert.equal(message.expectedOutput, undefined);
+    assert.equal(
+      message.location?.uri.fsPath,
+      path.join(cwd, "test", "my_app", "parser_test.exs"),
+    );
+    assert.equal(message.location?.range.start.line, 4);
+  });
+
+  test("finds apps of umbrella project", () => {
+    const umbrellaDir = path.join(fixturesPath, "sample_umbrella");
+
+    assert.deepEqual([...findProjectApps(umbrellaDir).entries()].sort(), [
+      ["child1", path.join(umbrellaDir, "apps", "child1")],
+      ["child2", path.join(umbrellaDir, "apps", "child2")],
+    ]);
+  });
+
+  test("resolves stacktrace frames of umbrella apps only", () => {
+    const umbrellaDir = path.join(fixturesPath, "sample_umbrella");
+    const message = [
+      "  1) test greets the world (Child1Test)",
+      "     apps/child1/test/child1_test.exs:5",
+      "     ** (RuntimeError) oops",
+      "     stacktrace:",
+      "       (child1 0.1.0) lib/child1.ex:15: Child1.hello/0",
+      "       (child2 0.1.0) lib/child1.ex:15: Child2.hello/0",
+      "       (elixir 1.17.3) mix.exs:10: String.to_integer/1",
+    ].join("\n");
+
+    const testMessage = buildTestFailureMessage(
+      message,
+      undefined,
+      umbrellaDir,
+      findProjectApps(umbrellaDir),
+    );
+
+    assert.deepEqual(
+      testMessage.stackTrace?.map((frame) => frame.uri?.fsPath),
+      [
+        path.join(umbrellaDir, "apps", "child1", "lib", "child1.ex"),
+        // the file does not exist in the app
+        undefined,
+        // Elixir frames are not resolved against the project dir
+        undefined,
+      ],
+    );
+  });
+});
@@ -0,0 +1,57 @@
+import * as assert from "node:assert";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { parseNixDevEnv, parseToolVersions } from "../../toolchain";
+
+const fixturesPath = path.resolve(__dirname, "../../../src/test-fixtures");
+
+suite("Tool versions parsing tests", () => {
+  test("reads the first listed elixir and erlang versions", () => {
+    const contents = fs.readFileSync(
+      path.join(fixturesPath, "tool_versions", ".tool-versions"),
+      "utf8",
+    );
+
+    assert.deepEqual(parseToolVersions(contents), {
+      elixir: "1.17.3-otp-27",
+      erlang: "27.1.2",
+    });
+  });
+
+  test("ignores tools without a version", () => {
+    assert.deepEqual(parseToolVersions("elixir\nerlang   # comment\n"), {});
+  });
+
+  test("accepts CRLF line endings", () => {
+    assert.deepEqual(parseToolVersions("erlang 26.2\r\nelixir 1.16.0\r\n"), {
+      elixir: "1.16.0",
+      erlang: "26.2",
+    });
+  });
+});
+
+suite("Nix dev shell environment parsing tests", () => {
+  test("keeps exported variables and splits PATH into bin dirs", () => {
+    const output = JSON.stringify({
+      variables: {
+        PATH: {
+          type: "exported",
+          value: ["/nix/store/elixir/bin", "", "/nix/store/erlang/bin"].join(
+            path.delimiter,
+          ),
+        },
+        MIX_HOME: { type: "exported", value: "/project/.nix-mix" },
+        LANG: { type: "exported", value: "C.UTF-8" },
+        HOME: { type: "exported", value: "/homeless-shelter" },
+        NIX_BUILD_TOP: { type: "exported", value: "/build" },
+        shellHook: { type: "var", value: "export MIX_ENV=dev" },
+        buildInputs: { type: "array", value: ["/nix/store/elixir"] },
+      },
+    });
+
+    assert.deepEqual(parseNixDevEnv(output), {
+      binDirs: ["/nix/store/elixir/bin", "/nix/store/erlang/bin"],
+      env: { MIX_HOME: "/project/.nix-mix", LANG: "C.UTF-8" },
+    });
+  });
+});
@@ -4,8 +4,11 @@ import * as path from "node:path";
 // You can import and use all API from the 'vscode' module
 // as well as import your extension to test it
 import * as vscode from "vscode";
+import { getEnvFilePath, loadEnvFile } from "../../envFile";
+import { buildEnvironment } from "../../executable";
 import type { ElixirLS } from "../../extension";
 import { WorkspaceMode } from "../../project";
+import { getSelectedToolchain, setSelectedToolchain } from "../../toolchain";
 import { getExtension, waitForLanguageClientManagerUpdate } from "../utils";
 
 let extension: vscode.Extension<ElixirLS>;
@@ -50,6 +53,37 @@ suite("Single folder mix tests", () => {
     assert.equal(extension.exports.languageClientManager.clients.size, 1);
   }).timeout(30000);
 
+  test("client status is reported for workspace folder client", async () => {
+    const statuses =
+      extension.exports.languageClientManager.getClientStatuses();
+    assert.equal(statuses.length, 1);
+    assert.equal(
+      statuses[0].key,
+      vscode.workspace.workspaceFolders?.[0].uri.toString(),
+    );
+    assert.equal(statuses[0].restartCount, 0);
+    assert.ok(!statuses[0].crashLoop);
+  });
+
+  test("public api reports project dir for workspace file", async () => {
+    assert.equal(extension.exports.apiVersion, 1);
+    const api = extension.exports.getApi(1);
+    const fileUri = vscode.Uri.file(
+      path.join(
+        fixturesPath,
+        "single_folder_mix",
+        "lib",
+        "single_folder_mix.ex",
+      ),
+    );
+    assert.equal(
+      api.getProjectDir(fileUri),
+      path.join(fixturesPath, "single_folder_mix"),
+    );
+    await api.whenServerReady(fileUri);
+    assert.ok(api.isServerReady(fileUri));
+  }).timeout(30000);
+
   test("requests from untitled: docs go to first workspace client", async () => {
     const sampleFileUri = vscode.Uri.parse("untitled:sample.exs");
     assert.equal(
@@ -86,4 +120,66 @@ suite("Single folder mix tests", () => {
       ),
     );
   });
+
+  test("env file configured for the workspace folder is loaded", async () => {
+    const folder = vscode.workspace.workspaceFolders?.[0];
+    const configuration = vscode.workspace.getConfiguration("elixirLS", folder);
+    await configuration.update(
+      "envFile",
+      path.join("..", "env_file", "sample.env"),
+      vscode.ConfigurationTarget.WorkspaceFolder,
+    );
+
+    try {
+      assert.equal(
+        getEnvFilePath(folder),
+        path.join(fixturesPath, "env_file", "sample.env"),
+      );
+      const env = loadEnvFile(folder);
+      assert.equal(env.DATABASE_URL, "postgres://localhost:5432/app");
+      assert.equal(env.FALLBACK, "fallback");
+    } finally {
+      await configuration.update(
+        "envFile",
+        undefined,
+        vscode.ConfigurationTarget.WorkspaceFolder,
+      );
+    }
+  });
+
+  test("selected nix toolchain environment is reused and env file takes precedence", async () => {
+    const folder = vscode.workspace.workspaceFolders?.[0];
+    assert.ok(folder);
+    const configuration = vscode.workspace.getConfiguration("elixirLS", folder);
+    // resolved when selected, nix is not run again when the environment is built
+    await setSelectedToolchain(folder, {
+      source: "nix",
+      label: "Nix dev shell (flake.nix)",
+      elixirVersion: "1.17.3",
+      otpVersion: "27",
+      binDirs: ["/nix/store/elixir/bin"],
+      env: { FOO: "toolchain", MIX_HOME: "/nix/mix" },
+    });
+    await configuration.update(
+      "envFile",
+      path.join("..", "env_file", "toolchain.env"),
+      vscode.ConfigurationTarget.WorkspaceFolder,
+    );
+
+    try {
+      assert.equal(getSelectedToolchain(folder)?.env.MIX_HOME, "/nix/mix");
+      const env = buildEnvironment(folder);
+      assert.equal(env.FOO, "env_file");
+      assert.equal(env.TOOLCHAIN_FOO, "toolchain");
+      assert.equal(env.MIX_HOME, "/nix/mix");
+      assert.equal(env.PATH.split(path.delimiter)[0], "/nix/store/elixir/bin");
+    } finally {
+      await configuration.update(
+        "envFile",
+        undefined,
+        vscode.ConfigurationTarget.WorkspaceFolder,
+      );
+      await setSelectedToolchain(folder, undefined);
+    }
+  });
 });
@@ -1,17 +1,64 @@
 import * as vscode from "vscode";
-import {
-  type ExecuteCommandParams,
-  ExecuteCommandRequest,
-  State,
-} from "vscode-languageclient";
 import { type RunTestArgs, runTest } from "./commands/runTest";
 import { RUN_TEST_FROM_CODELENS } from "./constants";
 import type { LanguageClientManager } from "./languageClientManager";
 import { type WorkspaceTracker, getProjectDir } from "./project";
+import { executeServerCommand } from "./serverCommands";
 import { reporter } from "./telemetry";
+import {
+  type CoverageData,
+  ElixirFileCoverage,
+  createFileCoverage,
+  mergeCoverage,
+  readTestCoverage,
+} from "./testCoverage";
+import {
+  findAffectedModules,
+  findDefinedModules,
+  isTestModuleAffected,
+  referencesAffectedModule,
+} from "./testImpact";
+import {
+  type TestTagFilter,
+  describeTagFilter,
+  getSavedTagFilters,
+  isFilterTag,
+  pickTagFilter,
+} from "./testTagFilter";
+
+// Response of the getExUnitTestsInFile server command
+interface ExUnitTestEntry {
+  name: string;
+  line: number;
+  type: string;
+  tags: string[];
+  // doctests only, file of the module the doctest is defined in
+  doctest_module_path?: string;
+}
+
+interface ExUnitDescribeEntry {
+  // null for tests outside of describe blocks
+  describe: string | null;
+  line: number;
+  // @describetag values, reported only by servers that support tag filters
+  tags?: string[];
+  tests: ExUnitTestEntry[];
+}
+
+interface ExUnitModuleEntry {
+  module: string;
+  line: number;
+  // @moduletag values, reported only by servers that support tag filters
+  tags?: string[];
+  describes: ExUnitDescribeEntry[];
+}
 
 const workspaceWatchers = new Map<string, vscode.FileSystemWatcher>();
 
+const _onDidDiscoverTests = new vscode.EventEmitter<vscode.Uri>();
+// Fired with the test file uri whenever tests in the file are discovered
+export const onDidDiscoverTests = _onDidDiscoverTests.event;
+
 export function handleWorkspaceFolderRemoved(folder: vscode.WorkspaceFolder) {
   const watcher = workspaceWatchers.get(folder.uri.toString());
   if (watcher) {
@@ -98,8 +145,8 @@ export function configureTestController(
     if (!workspaceFolder) {
       return undefined;
     }
-    workspaceFolder =
-      workspaceTracker.getOuterMostWorkspaceFolder(workspaceFolder);
+    // nested Mix projects get their own root item
+    workspaceFolder = workspaceTracker.getClientFolder(workspaceFolder, uri);
 
     const existing = controller.items.get(workspaceFolder.uri.toString());
     if (existing) {
@@ -196,7 +243,7 @@ export function configureTestController(
     // If a document is open, VS Code already knows its contents. If this is being
     // called from the resolveHandler when a document isn't open, we'll need to
     // read them from disk ourselves.
-    const clientPromise = languageClientManager.getClientPromiseByUri(file.uri);
+    const clientPromise = languageClientManager.resumeClientByUri(file.uri);
 
     if (!clientPromise) {
       console.error(
@@ -205,34 +252,15 @@ export function configureTestController(
       return;
     }
 
-    const client = await clientPromise;
-
-    if (!client.initializeResult) {
-      console.error(
-        `ElixirLS: unable to execute command on server ${
-          client.name
-        } in state ${State[client.state]}`,
-      );
-      return;
-    }
-
-    const command =
-      // biome-ignore lint/style/noNonNullAssertion: the command is guaranteed by the language server
-      client.initializeResult.capabilities.executeCommandProvider?.commands.find(
-        (c) => c.startsWith("getExUnitTestsInFile:"),
-      )!;
-
     console.log("ElixirLS: Finding tests in ", file.uri?.toString());
 
-    const params: ExecuteCommandParams = {
-      command: command,
-      arguments: [file.uri?.toString()],
-    };
-
-    // biome-ignore lint/suspicious/noExplicitAny: response structure is defined by the server
-    let res: any[] = [];
+    let res: ExUnitModuleEntry[] = [];
     try {
-      res = await client.sendRequest(ExecuteCommandRequest.type, params);
+      res = await executeServerCommand<ExUnitModuleEntry[]>(
+        clientPromise,
+        "getExUnitTestsInFile",
+        [file.uri?.toString()],
+      );
     } catch (e) {
       console.error(
         `ElixirLS: unable to get tests in file ${file.uri?.fsPath}: ${e}`,
@@ -252,8 +280,13 @@ export function configureTestController(
         0,
       );
       testData.set(moduleTestItem, ItemType.Module);
+      // @moduletag and @describetag apply to all tests below, older servers do
+      // not report them and only test tags are known then
+      const moduleTags = moduleEntry.tags ?? [];
+      moduleTestItem.tags = moduleTags.map((tag) => new vscode.TestTag(tag));
       file.children.add(moduleTestItem);
       for (const describeEntry of moduleEntry.describes) {
+        const inheritedTags = [...moduleTags, ...(describeEntry.tags ?? [])];
         let describeCollection: vscode.TestItemCollection;
         if (describeEntry.describe) {
           const describeTestItem = controller.createTestItem(
@@ -268,6 +301,9 @@ export function configureTestController(
             0,
           );
           describeTestItem.description = "describe";
+          describeTestItem.tags = inheritedTags.map(
+            (tag) => new vscode.TestTag(tag),
+          );
           testData.set(describeTestItem, ItemType.Describe);
           moduleTestItem.children.add(describeTestItem);
           describeCollection = describeTestItem.children;
@@ -275,7 +311,7 @@ export function configureTestController(
           describeCollection = moduleTestItem.children;
         }
         for (const testEntry of describeEntry.tests.filter(
-          (testEntry: { type: string }) => testEntry.type !== "doctest",
+          (testEntry) => testEntry.type !== "doctest",
         )) {
           const testItem = controller.createTestItem(
             testEntry.name,
@@ -289,22 +325,25 @@ export function configureTestController(
             0,
           );
           testItem.description = testEntry.type;
-          testItem.tags = testEntry.tags.map(
-            (tag: string) => new vscode.TestTag(tag),
-          );
+          testItem.tags = [
+            ...new Set<string>([...inheritedTags, ...testEntry.tags]),
+          ].map((tag) => new vscode.TestTag(tag));
           describeCollection.add(testItem);
         }
         const doctests = describeEntry.tests.filter(
-          (testEntry: { type: string }) => testEntry.type === "doctest",
+          (testEntry) => testEntry.type === "doctest",
         );
         const groupedDoctests = new Map<string, vscode.TestItem>();
         for (const testEntry of doctests) {
           const doctestModule = testEntry.tags
-            .find((t: string) => t.startsWith("doctest:"))
+            .find((t) => t.startsWith("doctest:"))
             ?.replace("doctest:", "");
+          if (!doctestModule) {
+            continue;
+          }
           const doctestLine = Number(
             testEntry.tags
-              .find((t: string) => t.startsWith("doctest_line:"))
+              .find((t) => t.startsWith("doctest_line:"))
               ?.replace("doctest_line:", ""),
           );
           let doctestGroupItem = groupedDoctests.get(doctestModule);
@@ -330,19 +369,23 @@ export function configureTestController(
           const testItem = controller.createTestItem(
             testEntry.name,
             testEntry.name,
-            vscode.Uri.file(testEntry.doctest_module_path),
+            testEntry.doctest_module_path
+              ? vscode.Uri.file(testEntry.doctest_module_path)
+              : file.uri,
           );
           testItem.range = new vscode.Range(doctestLine, 0, doctestLine + 1, 0);
           testItem.description = testEntry.type;
-          testItem.tags = testEntry.tags.map(
-            (tag: string) => new vscode.TestTag(tag),
-          );
+          testItem.tags = [
+            ...new Set<string>([...inheritedTags, ...testEntry.tags]),
+          ].map((tag) => new vscode.TestTag(tag));
           testFileUris.set(testItem, file.uri);
 
           doctestGroupItem.children.add(testItem);
         }
       }
     }
+
+    _onDidDiscoverTests.fire(file.uri);
   }
 
   async function discoverAllFilesInWorkspace(): Promise<void> {
@@ -379,11 +422,21 @@ export function configureTestController(
         context.subscriptions.push(watcher);
 
         // When files are created, make sure there's a corresponding "file" node in the tree
-        watcher.onDidCreate((uri) => getOrCreateFile(uri, projectDir));
+        watcher.onDidCreate((uri) =>
+          getOrCreateFile(
+            uri,
+            workspaceTracker.getProjectDirForUri(uri) ?? projectDir,
+          ),
+        );
         // When files change, re-parse them. Note that you could optimize this so
         // that you only re-parse children that have been resolved in the past.
         watcher.onDidChange((uri) =>
-          parseTestsInFileContents(getOrCreateFile(uri, projectDir)),
+          parseTestsInFileContents(
+            getOrCreateFile(
+              uri,
+              workspaceTracker.getProjectDirForUri(uri) ?? projectDir,
+            ),
+          ),
         );
         // And, finally, delete TestItems for removed files. This is simple, since
         // we use the URI as the TestItem's ID.
@@ -392,8 +445,10 @@ export function configureTestController(
         const files = await vscode.workspace.findFiles(pattern);
 
         for (const file of files) {
-          if (filterTestFile(file, projectDir)) {
-            getOrCreateFile(file, projectDir);
+          const fileProjectDir =
+            workspaceTracker.getProjectDirForUri(file) ?? projectDir;
+          if (filterTestFile(file, fileProjectDir)) {
+            getOrCreateFile(file, fileProjectDir);
           }
         }
 
@@ -479,28 +534,71 @@ export function configureTestController(
     }
   }
 
+  type RunOptions = {
+    coverage?: boolean;
+    // tests failed in the last run, from the ExUnit failures manifest
+    failed?: boolean;
+    // tests affected by changes since the last successful run
+    stale?: boolean;
+    tagFilter?: TestTagFilter;
+  };
+
+  // File item containing the test, workspace folder items are kept
+  function getFileItem(test: vscode.TestItem) {
+    let item = test;
+    while (item.parent && getType(item) !== ItemType.File) {
+      item = item.parent;
+    }
+    return item;
+  }
+
+  function getRootItem(test: vscode.TestItem) {
+    let root = test;
+    while (root.parent) {
+      root = root.parent;
+    }
+    return root;
+  }
+
   async function runHandler(
     shouldDebug: boolean,
     request: vscode.TestRunRequest,
     token: vscode.CancellationToken,
+    options: RunOptions = {},
   ) {
     const run = controller.createTestRun(request);
     const queue: vscode.TestItem[] = [];
+    // coverage of all mix test runs, reported when the run ends
+    const coverageData: CoverageData = new Map();
+    const { coverage = false } = options;
 
     // Loop through all included tests, or all known tests, and add them to our queue
     if (request.include) {
       // biome-ignore lint/complexity/noForEach: using forEach simplifies queuing requested tests
       request.include.forEach((test) => {
         queue.push(test);
-        run.enqueued(test);
       });
     } else {
       // biome-ignore lint/complexity/noForEach: using forEach simplifies queuing all known tests
       controller.items.forEach((test) => {
         queue.push(test);
-        run.enqueued(test);
       });
     }
+    if (options.failed || options.stale) {
+      // mix test selects failed or stale tests of whole projects, results are
+      // mapped back from workspace folder items
+      const roots = new Set(queue.map(getRootItem));
+      queue.splice(0, queue.length, ...roots);
+    } else if (options.tagFilter?.only?.length) {
+      // multiple `--only` filters select tests matching any of them, tests
+      // are selected by files so that the location does not extend the
+      // tag selection
+      const files = new Set(queue.map(getFileItem));
+      queue.splice(0, queue.length, ...files);
+    }
+    for (const test of queue) {
+      run.enqueued(test);
+    }
 
     // For every test that was queued, try to run it. Call run.passed() or run.failed().
     // The `TestMessage` can contain extra information, like a failing location or
@@ -707,8 +805,19 @@ export function configureTestController(
       }
 
       const start = performance.now();
+      const startTime = Date.now();
       try {
-        const output = await runTest(run, runArgs, shouldDebug);
+        const output = await runTest(
+          run,
+          {
+            ...runArgs,
+            coverage,
+            failed: options.failed,
+            stale: options.stale,
+            tagFilter: options.tagFilter,
+          },
+          shouldDebug,
+        );
         writeOutput(run, output, test);
       } catch (e) {
         writeOutput(run, e as string, test);
@@ -719,6 +828,23 @@ export function configureTestController(
         );
       }
 
+      if (coverage) {
+        try {
+          mergeCoverage(
+            coverageData,
+            await readTestCoverage(
+              context,
+              runArgs.workspaceFolder,
+              runArgs.cwd,
+              startTime,
+            ),
+          );
+        } catch (e) {
+          console.error("ElixirLS: unable to read test coverage", e);
+          writeOutput(run, `Unable to read test coverage: ${e}`, test);
+        }
+      }
+
       if (includeChildren) {
         // biome-ignore lint/complexity/noForEach: forEach makes enqueueing child tests straightforward
         test.children.forEach((test) => {
@@ -728,17 +854,189 @@ export function configureTestController(
       }
     }
 
+    if (coverage && coverageData.size === 0) {
+      run.appendOutput("No coverage data was written by mix test --cover\r\n");
+    }
+    for (const [file, data] of coverageData) {
+      run.addCoverage(createFileCoverage(file, data));
+    }
+
     // Make sure to end the run after all tests have been executed:
     run.end();
   }
 
+  type WatchedTests = {
+    profile: vscode.TestRunProfile | undefined;
+    coverage: boolean;
+    token: vscode.CancellationToken;
+  };
+
+  // Continuous runs by watched test item, "ALL" when all tests are watched
+  const watchedTests = new Map<vscode.TestItem | "ALL", WatchedTests>();
+  // Runs started on save are queued, debug sessions of concurrent runs would
+  // be mixed up
+  let continuousRuns = Promise.resolve();
+
+  function watchTests(
+    request: vscode.TestRunRequest,
+    token: vscode.CancellationToken,
+    coverage: boolean,
+  ) {
+    const items = request.include ?? ["ALL" as const];
+    for (const item of items) {
+      watchedTests.set(item, { profile: request.profile, coverage, token });
+    }
+    const listener = token.onCancellationRequested(() => {
+      listener.dispose();
+      for (const item of items) {
+        watchedTests.delete(item);
+      }
+    });
+  }
+
+  function isAncestorOrSelf(ancestor: vscode.TestItem, item: vscode.TestItem) {
+    for (
+      let current: vscode.TestItem | undefined = item;
+      current;
+      current = current.parent
+    ) {
+      if (current === ancestor) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  // Test files and modules affected by the saved file: the test file itself or
+  // test modules depending on modules defined in the file. Modules used by test
+  // files are not known, test modules are matched by name and when none matches
+  // test files referencing the affected modules are affected.
+  async function findAffectedTests(
+    document: vscode.TextDocument,
+  ): Promise<vscode.TestItem[]> {
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri);
+    if (!workspaceFolder) {
+      return [];
+    }
+    const folderItem = controller.items.get(
+      workspaceTracker
+        .getClientFolder(workspaceFolder, document.uri)
+        .uri.toString(),
+    );
+    if (!folderItem) {
+      return [];
+    }
+
+    const fileItem = folderItem.children.get(document.uri.toString());
+    if (fileItem) {
+      return [fileItem];
+    }
+
+    const changedModules = findDefinedModules(document.getText());
+    if (changedModules.length === 0) {
+      return [];
+    }
+    const affectedModules = await findAffectedModules(
+      languageClientManager.resumeClientByUri(document.uri),
+      changedModules,
+    );
+
+    const affected: vscode.TestItem[] = [];
+    for (const [, file] of folderItem.children) {
+      for (const [, moduleItem] of file.children) {
+        if (
+          getType(moduleItem) === ItemType.Module &&
+          isTestModuleAffected(moduleItem.id, affectedModules)
+        ) {
+          affected.push(moduleItem);
+        }
+      }
+    }
+    if (affected.length > 0) {
+      return affected;
+    }
+
+    for (const [, file] of folderItem.children) {
+      if (!file.uri) {
+        continue;
+      }
+      try {
+        const source = Buffer.from(
+          await vscode.workspace.fs.readFile(file.uri),
+        ).toString("utf8");
+        if (referencesAffectedModule(source, affectedModules)) {
+          affected.push(file);
+        }
+      } catch (e) {
+        console.warn(`ElixirLS: unable to read test file ${file.uri}: ${e}`);
+      }
+    }
+    return affected;
+  }
+
+  // Marks results of affected tests as outdated and re-runs the watched ones
+  async function handleDidSaveTextDocument(document: vscode.TextDocument) {
+    if (document.languageId !== "elixir" || document.uri.scheme !== "file") {
+      return;
+    }
+
+    const affected = await findAffectedTests(document);
+    if (affected.length === 0) {
+      return;
+    }
+    console.log(
+      `ElixirLS: ${affected.length} test items affected by ${document.uri.fsPath}`,
+    );
+    controller.invalidateTestResults(affected);
+
+    for (const [watched, { profile, coverage, token }] of watchedTests) {
+      const include = new Set<vscode.TestItem>();
+      for (const item of affected) {
+        if (watched === "ALL" || isAncestorOrSelf(watched, item)) {
+          include.add(item);
+        } else if (isAncestorOrSelf(item, watched)) {
+          include.add(watched);
+        }
+      }
+      if (include.size === 0) {
+        continue;
+      }
+      const request = new vscode.TestRunRequest(
+        [...include],
+        undefined,
+        profile,
+        true,
+      );
+      continuousRuns = continuousRuns
+        .then(() =>
+          token.isCancellationRequested
+            ? undefined
+            : runHandler(false, request, token, { coverage }),
+        )
+        .catch((e) => console.error("ElixirLS: continuous test run failed", e));
+    }
+  }
+
+  context.subscriptions.push(
+    vscode.workspace.onDidSaveTextDocument((document) =>
+      handleDidSaveTextDocument(document).catch((e) =>
+        console.error("ElixirLS: unable to find tests affected by save", e),
+      ),
+    ),
+  );
+
   const runProfile = controller.createRunProfile(
     "Run",
     vscode.TestRunProfileKind.Run,
     (request, token) => {
+      if (request.continuous) {
+        watchTests(request, token, false);
+        return;
+      }
       runHandler(false, request, token);
     },
   );
+  runProfile.supportsContinuousRun = true;
 
   context.subscriptions.push(runProfile);
 
@@ -752,6 +1050,159 @@ export function configureTestController(
 
   context.subscriptions.push(debugProfile);
 
+  const coverageProfile = controller.createRunProfile(
+    "Run with Coverage",
+    vscode.TestRunProfileKind.Coverage,
+    (request, token) => {
+      if (request.continuous) {
+        watchTests(request, token, true);
+        return;
+      }
+      runHandler(false, request, token, { coverage: true });
+    },
+  );
+  coverageProfile.supportsContinuousRun = true;
+
+  // mix test --failed and --stale select tests of whole projects, not only of
+  // the selected items
+  const failedProfile = controller.createRunProfile(
+    "Run Failed Tests (project)",
+    vscode.TestRunProfileKind.Run,
+    (request, token) => {
+      runHandler(false, request, token, { failed: true });
+    },
+    false,
+  );
+
+  context.subscriptions.push(failedProfile);
+
+  const staleProfile = controller.createRunProfile(
+    "Run Stale Tests (project)",
+    vscode.TestRunProfileKind.Run,
+    (request, token) => {
+      runHandler(false, request, token, { stale: true });
+    },
+    false,
+  );
+
+  context.subscriptions.push(staleProfile);
+
+  // Tags of discovered tests, files not resolved yet are parsed first
+  async function discoverTags(): Promise<string[]> {
+    await discoverAllFilesInWorkspace();
+    const files: vscode.TestItem[] = [];
+    for (const [, folderItem] of controller.items) {
+      for (const [, file] of folderItem.children) {
+        files.push(file);
+      }
+    }
+    await Promise.allSettled(
+      files
+        .filter((file) => file.children.size === 0)
+        .map((file) => parseTestsInFileContents(file)),
+    );
+
+    const tags = new Set<string>();
+    const collect = (items: vscode.TestItemCollection) => {
+      for (const [, item] of items) {
+        for (const tag of item.tags) {
+          if (isFilterTag(tag.id)) {
+            tags.add(tag.id);
+          }
+        }
+        collect(item.children);
+      }
+    };
+    collect(controller.items);
+    return [...tags].sort();
+  }
+
+  const tagFilterProfile = controller.createRunProfile(
+    "Run with Tag Filter...",
+    vscode.TestRunProfileKind.Run,
+    async (request, token) => {
+      const tags = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Window,
+          title: "ElixirLS: discovering test tags",
+        },
+        discoverTags,
+      );
+      const tagFilter = await pickTagFilter(tags);
+      if (tagFilter) {
+        runHandler(false, request, token, { tagFilter });
+      }
+    },
+    false,
+  );
+
+  context.subscriptions.push(tagFilterProfile);
+
+  // Named filters from elixirLS.testTagFilters
+  let savedFilterProfiles: vscode.TestRunProfile[] = [];
+  function createSavedFilterProfiles() {
+    for (const profile of savedFilterProfiles) {
+      profile.dispose();
+    }
+    savedFilterProfiles = getSavedTagFilters().map((tagFilter) =>
+      controller.createRunProfile(
+        `Run ${tagFilter.name} (${describeTagFilter(tagFilter)})`,
+        vscode.TestRunProfileKind.Run,
+        (request, token) => {
+          runHandler(false, request, token, { tagFilter });
+        },
+        false,
+      ),
+    );
+  }
+  createSavedFilterProfiles();
+
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration((event) => {
+      if (event.affectsConfiguration("elixirLS.testTagFilters")) {
+        createSavedFilterProfiles();
+      }
+    }),
+    {
+      dispose: () => {
+        for (const profile of savedFilterProfiles) {
+          profile.dispose();
+        }
+      },
+    },
+  );
+
+  // runs failed or stale tests in all projects
+  for (const [commandName, title, profile, options] of [
+    ["extension.runFailedTests", "failed", failedProfile, { failed: true }],
+    ["extension.runStaleTests", "stale", staleProfile, { stale: true }],
+  ] as const) {
+    context.subscriptions.push(
+      vscode.commands.registerCommand(commandName, () =>
+        vscode.window.withProgress(
+          {
+            location: vscode.ProgressLocation.Notification,
+            title: `ElixirLS: running ${title} tests`,
+            cancellable: true,
+          },
+          async (_progress, token) => {
+            await discoverAllFilesInWorkspace();
+            await runHandler(
+              false,
+              new vscode.TestRunRequest(undefined, undefined, profile),
+              token,
+              options,
+            );
+          },
+        ),
+      ),
+    );
+  }
+  coverageProfile.loadDetailedCoverage = async (_run, fileCoverage) =>
+    fileCoverage instanceof ElixirFileCoverage ? fileCoverage.details : [];
+
+  context.subscriptions.push(coverageProfile);
+
   type RunArgs = {
     projectDir: string;
     filePath: string;
@@ -831,4 +1282,6 @@ export function configureTestController(
   );
 
   context.subscriptions.push(testCommand);
+
+  return controller;
 }
@@ -0,0 +1,264 @@
+import { exec } from "node:child_process";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import * as vscode from "vscode";
+import { buildCommand, buildEnvironment } from "./executable";
+
+// Name passed to `mix test --cover --export-coverage`, Mix writes the data to
+// cover/<name>.coverdata
+export const coverageExportName = "elixir_ls";
+
+const exportTimeout = 60 * 1000;
+
+// Converts exported Erlang cover data to lcov. Modules are not loaded, source
+// paths and function lines are read from beam chunks of the test build.
+const exportScript = `
+defmodule ElixirLS.CoverageExport do
+  def run(coverdata, output) do
+    for ebin <- Path.wildcard("_build/test/lib/*/ebin"), do: Code.append_path(ebin)
+    :cover.start()
+    :ok = :cover.import(String.to_charlist(coverdata))
+    File.write!(output, Enum.flat_map(:cover.imported_modules(), &record/1))
+  end
+
+  defp record(module) do
+    with beam when is_list(beam) <- :code.which(module),
+         {:ok, {_, [compile_info: info]}} <- :beam_lib.chunks(beam, [:compile_info]),
+         source when is_list(source) <- info[:source],
+         {:ok, lines} <- :cover.analyse(module, :calls, :line),
+         {:ok, functions} <- :cover.analyse(module, :calls, :function) do
+      definitions = definition_lines(module, beam)
+
+      function_records =
+        for {{_, name, arity}, calls} <- functions, Map.has_key?(definitions, {name, arity}) do
+          ["FN:#{definitions[{name, arity}]},#{name}/#{arity}\\n", "FNDA:#{calls},#{name}/#{arity}\\n"]
+        end
+
+      line_records = for {{_, line}, calls} <- lines, line > 0, do: "DA:#{line},#{calls}\\n"
+      [["SF:#{source}\\n", function_records, line_records, "end_of_record\\n"]]
+    else
+      _ -> []
+    end
+  end
+
+  defp definition_lines(module, beam) do
+    with {:ok, {_, [debug_info: {:debug_info_v1, backend, data}]}} <-
+           :beam_lib.chunks(beam, [:debug_info]),
+         {:ok, %{definitions: definitions}} <- backend.debug_info(:elixir_v1, module, data, []) do
+      for {{name, arity}, _kind, meta, _clauses} <- definitions, into: %{} do
+        {{name, arity}, meta[:line]}
+      end
+    else
+      _ -> %{}
+    end
+  end
+end
+
+ElixirLS.CoverageExport.run(System.fetch_env!("ELS_COVERDATA"), System.fetch_env!("ELS_LCOV_OUTPUT"))
+`;
+
+interface FunctionCoverage {
+  line: number;
+  hits: number;
+}
+
+interface FileCoverageData {
+  // line number to hit count
+  lines: Map<number, number>;
+  functions: Map<string, FunctionCoverage>;
+}
+
+// Absolute source file path to its coverage
+export type CoverageData = Map<string, FileCoverageData>;
+
+// Keeps statement and function details for `loadDetailedCoverage`
+export class ElixirFileCoverage extends vscode.FileCoverage {
+  public readonly details: vscode.FileCoverageDetail[];
+
+  constructor(uri: vscode.Uri, details: vscode.FileCoverageDetail[]) {
+    const summary = vscode.FileCoverage.fromDetails(uri, details);
+    super(
+      uri,
+      summary.statementCoverage,
+      undefined,
+      summary.declarationCoverage,
+    );
+    this.details = details;
+  }
+}
+
+function getFileData(data: CoverageData, file: string) {
+  let fileData = data.get(file);
+  if (!fileData) {
+    fileData = { lines: new Map(), functions: new Map() };
+    data.set(file, fileData);
+  }
+  return fileData;
+}
+
+// Parses lcov tracefiles, relative source paths are resolved against baseDir
+export function parseLcov(contents: string, baseDir: string): CoverageData {
+  const data: CoverageData = new Map();
+  let current: FileCoverageData | undefined;
+
+  for (const line of contents.split(/\r?\n/)) {
+    const separator = line.indexOf(":");
+    const key = separator === -1 ? line : line.slice(0, separator);
+    const value = line.slice(separator + 1);
+    if (key === "SF") {
+      current = getFileData(data, path.resolve(baseDir, value));
+    } else if (key === "end_of_record") {
+      current = undefined;
+    } else if (current && key === "DA") {
+      const [lineNumber, hits] = value.split(",");
+      current.lines.set(
+        Number(lineNumber),
+        (current.lines.get(Number(lineNumber)) ?? 0) + Number(hits),
+      );
+    } else if (current && (key === "FN" || key === "FNDA")) {
+      // `FN:<line>,<name>` and `FNDA:<hits>,<name>`, names may contain commas
+      const comma = value.indexOf(",");
+      const name = value.slice(comma + 1);
+      const number = Number(value.slice(0, comma));
+      const functionData = current.functions.get(name) ?? { line: 0, hits: 0 };
+      if (key === "FN") {
+        functionData.line = number;
+      } else {
+        functionData.hits += number;
+      }
+      current.functions.set(name, functionData);
+    }
+  }
+  return data;
+}
+
+// Adds hit counts of source to target, e.g. coverage of several mix test runs
+export function mergeCoverage(target: CoverageData, source: CoverageData) {
+  for (const [file, sourceData] of source) {
+    const targetData = getFileData(target, file);
+    for (const [line, hits] of sourceData.lines) {
+      targetData.lines.set(line, (targetData.lines.get(line) ?? 0) + hits);
+    }
+    for (const [name, { line, hits }] of sourceData.functions) {
+      const existing = targetData.functions.get(name);
+      targetData.functions.set(name, {
+        line,
+        hits: (existing?.hits ?? 0) + hits,
+      });
+    }
+  }
+}
+
+export function createFileCoverage(
+  file: string,
+  data: FileCoverageData,
+): ElixirFileCoverage {
+  const details: vscode.FileCoverageDetail[] = [];
+  for (const [line, hits] of data.lines) {
+    details.push(
+      new vscode.StatementCoverage(
+        hits,
+        new vscode.Position(Math.max(line - 1, 0), 0),
+      ),
+    );
+  }
+  for (const [name, { line, hits }] of data.functions) {
+    details.push(
+      new vscode.DeclarationCoverage(
+        name,
+        hits,
+        new vscode.Position(Math.max(line - 1, 0), 0),
+      ),
+    );
+  }
+  return new ElixirFileCoverage(vscode.Uri.file(file), details);
+}
+
+function isFresh(file: string, since: number) {
+  try {
+    return fs.statSync(file).mtimeMs >= since;
+  } catch {
+    return false;
+  }
+}
+
+// Converts exported cover data with the elixir found through the launch script
+function exportCoverData(
+  context: vscode.ExtensionContext,
+  workspaceFolder: vscode.WorkspaceFolder,
+  projectDir: string,
+  coverdata: string,
+): Promise<string> {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "elixir-ls-"));
+  const scriptPath = path.join(dir, "coverage_export.exs");
+  const outputPath = path.join(dir, "coverage.lcov");
+  fs.writeFileSync(scriptPath, exportScript);
+  const command = buildCommand(context, "elixir_check", workspaceFolder);
+
+  return new Promise<string>((resolve, reject) => {
+    exec(
+      `"${command}" "${scriptPath}"`,
+      {
+        cwd: projectDir,
+        env: {
+          ...process.env,
+          ...buildEnvironment(workspaceFolder),
+          ELS_COVERDATA: coverdata,
+          ELS_LCOV_OUTPUT: outputPath,
+        },
+        timeout: exportTimeout,
+      },
+      (error, _stdout, stderr) => {
+        if (error) {
+          reject(new Error(`${error.message}\n${stderr}`));
+        } else {
+          resolve(fs.readFileSync(outputPath, "utf8"));
+        }
+      },
+    );
+  }).finally(() => fs.rmSync(dir, { recursive: true, force: true }));
+}
+
+// Reads coverage written since the run started. Cover data exported by Mix is
+// used first, lcov written by a configured coverage tool (e.g. excoveralls)
+// otherwise. Umbrella apps write coverage to their own directories.
+export async function readTestCoverage(
+  context: vscode.ExtensionContext,
+  workspaceFolder: vscode.WorkspaceFolder,
+  projectDir: string,
+  since: number,
+): Promise<CoverageData> {
+  const appsDir = path.join(projectDir, "apps");
+  const dirs = [
+    projectDir,
+    ...(fs.existsSync(appsDir)
+      ? fs
+          .readdirSync(appsDir, { withFileTypes: true })
+          .filter((entry) => entry.isDirectory())
+          .map((entry) => path.join(appsDir, entry.name))
+      : []),
+  ];
+
+  const data: CoverageData = new Map();
+  for (const dir of dirs) {
+    const coverdata = path.join(
+      dir,
+      "cover",
+      `${coverageExportName}.coverdata`,
+    );
+    const lcov = path.join(dir, "cover", "lcov.info");
+    if (isFresh(coverdata, since)) {
+      const contents = await exportCoverData(
+        context,
+        workspaceFolder,
+        projectDir,
+        coverdata,
+      );
+      mergeCoverage(data, parseLcov(contents, dir));
+    } else if (isFresh(lcov, since)) {
+      mergeCoverage(data, parseLcov(fs.readFileSync(lcov, "utf8"), dir));
+    }
+  }
+  return data;
+}
@@ -0,0 +1,206 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as vscode from "vscode";
+import { parseMixExs } from "./project";
+
+// ExUnit formats failures as
+//
+//   1) test adds numbers (MathTest)
+//      test/math_test.exs:5
+//      Assertion with == failed
+//      code:  assert 1 + 1 == 3
+//      left:  2
+//      right: 3
+//      stacktrace:
+//        test/math_test.exs:6: (test)
+//
+// Assertion values and stacktrace are parsed from the text, the debug adapter
+// formatter does not report them separately.
+
+interface StackFrame {
+  label: string;
+  // relative to the project dir for project files
+  file: string;
+  line: number;
+  // OTP application printed before the file, e.g. `(elixir 1.17.0)`
+  app: string | undefined;
+}
+
+interface ParsedFailure {
+  left: string | undefined;
+  right: string | undefined;
+  // file and line printed below the test name
+  testLocation: { file: string; line: number } | undefined;
+  stacktrace: StackFrame[];
+}
+
+const labelRegex = /^(\s*)(left|right|stacktrace):(\s+|$)/;
+const locationRegex = /^\s*(\S+\.exs?):(\d+)$/;
+const frameRegex = /^\s*(?:\((\S+) [^)]*\) )?(\S+?):(\d+): (.*)$/;
+
+// Multi-line values are indented to the column of the first line value
+function readValue(lines: string[], start: number, column: number) {
+  const value = [lines[start].slice(column)];
+  for (let i = start + 1; i < lines.length; i++) {
+    const line = lines[i];
+    if (line.trim() === "" || line.length - line.trimStart().length < column) {
+      break;
+    }
+    value.push(line.slice(column));
+  }
+  return value.join("\n");
+}
+
+export function parseTestFailure(message: string): ParsedFailure {
+  const lines = message.split(/\r?\n/);
+  const result: ParsedFailure = {
+    left: undefined,
+    right: undefined,
+    testLocation: undefined,
+    stacktrace: [],
+  };
+
+  let inStacktrace = false;
+  for (const [index, line] of lines.entries()) {
+    if (inStacktrace) {
+      const frame = line.match(frameRegex);
+      if (!frame) {
+        inStacktrace = false;
+        continue;
+      }
+      result.stacktrace.push({
+        app: frame[1],
+        file: frame[2],
+        line: Number(frame[3]),
+        label: frame[4],
+      });
+      continue;
+    }
+
+    const location = line.match(locationRegex);
+    if (location && !result.testLocation) {
+      result.testLocation = { file: location[1], line: Number(location[2]) };
+      continue;
+    }
+
+    const label = line.match(labelRegex);
+    if (!label) {
+      continue;
+    }
+    const column = label[0].length;
+    if (label[2] === "stacktrace") {
+      inStacktrace = true;
+    } else if (label[2] === "left" && result.left === undefined) {
+      result.left = readValue(lines, index, column);
+    } else if (label[2] === "right" && result.right === undefined) {
+      result.right = readValue(lines, index, column);
+    }
+  }
+  return result;
+}
+
+function readMixExs(dir: string) {
+  try {
+    return parseMixExs(fs.readFileSync(path.join(dir, "mix.exs"), "utf8"));
+  } catch {
+    return undefined;
+  }
+}
+
+// Directories of OTP applications of the project by name - the project app or
+// apps of an umbrella project
+export function findProjectApps(cwd: string): Map<string, string> {
+  const apps = new Map<string, string>();
+  const info = readMixExs(cwd);
+  if (info?.app) {
+    apps.set(info.app, cwd);
+  }
+  if (!info?.appsPath) {
+    return apps;
+  }
+  const appsDir = path.resolve(cwd, info.appsPath);
+  let entries: fs.Dirent[] = [];
+  try {
+    entries = fs.readdirSync(appsDir, { withFileTypes: true });
+  } catch {
+    return apps;
+  }
+  for (const entry of entries) {
+    const appDir = path.join(appsDir, entry.name);
+    const app = entry.isDirectory() ? readMixExs(appDir)?.app : undefined;
+    if (app) {
+      apps.set(app, appDir);
+    }
+  }
+  return apps;
+}
+
+// Frames of umbrella apps are printed relative to the app directory. Frames of
+// Elixir, OTP and dependencies are not resolved.
+function resolveFrameFile(
+  frame: StackFrame,
+  cwd: string,
+  projectApps: Map<string, string>,
+) {
+  const dir = frame.app ? projectApps.get(frame.app) : cwd;
+  if (!dir) {
+    return undefined;
+  }
+  const file = path.resolve(dir, frame.file);
+  return fs.existsSync(file) ? file : undefined;
+}
+
+function frameLocation(file: string, line: number) {
+  return new vscode.Location(
+    vscode.Uri.file(file),
+    new vscode.Position(Math.max(line - 1, 0), 0),
+  );
+}
+
+// Builds a test message with the assertion diff, location of the failing
+// assertion in the test file and clickable stacktrace
+export function buildTestFailureMessage(
+  message: string,
+  testFile: string | undefined,
+  cwd: string,
+  projectApps: Map<string, string>,
+): vscode.TestMessage {
+  const failure = parseTestFailure(message);
+
+  // ExUnit `assert left == right` expects the right side
+  const testMessage =
+    failure.left !== undefined && failure.right !== undefined
+      ? vscode.TestMessage.diff(message, failure.right, failure.left)
+      : new vscode.TestMessage(message);
+
+  const frames = failure.stacktrace.map((frame) => {
+    const file = resolveFrameFile(frame, cwd, projectApps);
+    return { frame, file };
+  });
+  testMessage.stackTrace = frames.map(
+    ({ frame, file }) =>
+      new vscode.TestMessageStackFrame(
+        frame.app ? `${frame.label} (${frame.app})` : frame.label,
+        file ? vscode.Uri.file(file) : undefined,
+        file ? new vscode.Position(Math.max(frame.line - 1, 0), 0) : undefined,
+      ),
+  );
+
+  // the innermost frame in the test file is the failing assertion, the test
+  // definition line is used when the stacktrace is not available
+  const assertionFrame = testFile
+    ? frames.find(({ file }) => file === path.resolve(cwd, testFile))
+    : undefined;
+  if (assertionFrame?.file) {
+    testMessage.location = frameLocation(
+      assertionFrame.file,
+      assertionFrame.frame.line,
+    );
+  } else if (failure.testLocation) {
+    testMessage.location = frameLocation(
+      path.resolve(cwd, failure.testLocation.file),
+      failure.testLocation.line,
+    );
+  }
+  return testMessage;
+}
@@ -0,0 +1,78 @@
+import type { LanguageClient } from "vscode-languageclient/node";
+import { executeServerCommand } from "./serverCommands";
+
+interface ModuleDependenciesResult {
+  reverse_transitive_dependencies?: string[];
+  error?: string;
+}
+
+const defmoduleRegex = /^\s*defmodule\s+([A-Z][\w.]*)\s+do\b/gm;
+
+// Module names as reported by the server may be prefixed with `Elixir.`
+export function normalizeModuleName(name: string) {
+  return name.replace(/^Elixir\./, "");
+}
+
+// Modules defined in the source, nested modules are reported with their own
+// name only as aliases are not resolved
+export function findDefinedModules(source: string): string[] {
+  return [...source.matchAll(defmoduleRegex)].map((match) => match[1]);
+}
+
+// Changed modules and all modules depending on them, transitively. Test modules
+// are usually not compiled by the server, `FooTest` is matched by `Foo` then.
+// Only the changed modules are affected when no server is started.
+export async function findAffectedModules(
+  client: LanguageClient | Promise<LanguageClient> | undefined,
+  changedModules: string[],
+): Promise<Set<string>> {
+  const affected = new Set(changedModules.map(normalizeModuleName));
+  if (!client) {
+    return affected;
+  }
+  for (const module of changedModules) {
+    try {
+      const result = await executeServerCommand<ModuleDependenciesResult>(
+        client,
+        "llmModuleDependencies",
+        [module],
+      );
+      if (result?.error) {
+        console.warn(
+          `ElixirLS: unable to get dependencies of ${module}: ${result.error}`,
+        );
+        continue;
+      }
+      for (const dependent of result?.reverse_transitive_dependencies ?? []) {
+        affected.add(normalizeModuleName(dependent));
+      }
+    } catch (e) {
+      console.warn(`ElixirLS: unable to get dependencies of ${module}: ${e}`);
+    }
+  }
+  return affected;
+}
+
+// Whether the source mentions one of the modules by its full name, e.g. in an
+// alias. Nested modules of the affected ones are matched too.
+export function referencesAffectedModule(
+  source: string,
+  affectedModules: Set<string>,
+) {
+  return [...affectedModules].some((module) =>
+    new RegExp(`(?<![\\w.])${module.replace(/\./g, "\\.")}(?!\\w)`).test(
+      source,
+    ),
+  );
+}
+
+export function isTestModuleAffected(
+  testModule: string,
+  affectedModules: Set<string>,
+) {
+  const name = normalizeModuleName(testModule);
+  return (
+    affectedModules.has(name) ||
+    (name.endsWith("Test") && affectedModules.has(name.slice(0, -4)))
+  );
+}
@@ -0,0 +1,113 @@
+import * as vscode from "vscode";
+
+// ExUnit tag filters, passed to mix test as `--only`, `--exclude` and
+// `--include`. Tags are `name` or `name:value`.
+export interface TestTagFilter {
+  name: string;
+  only?: string[];
+  exclude?: string[];
+  // tags excluded by default in test_helper.exs, e.g. `external`
+  include?: string[];
+}
+
+type FilterMode = "only" | "exclude" | "include";
+
+interface TagQuickPickItem extends vscode.QuickPickItem {
+  tag: string;
+  mode: FilterMode;
+}
+
+const modeTitles: Record<FilterMode, string> = {
+  only: "Run only tests tagged",
+  exclude: "Exclude tests tagged",
+  include: "Include tests excluded by default tagged",
+};
+
+// Tags set by the server to locate doctests are not useful as filters
+export function isFilterTag(tag: string) {
+  return !tag.startsWith("doctest:") && !tag.startsWith("doctest_line:");
+}
+
+export function buildTagFilterArgs(filter: TestTagFilter): string[] {
+  return [
+    ...(filter.only ?? []).flatMap((tag) => ["--only", tag]),
+    ...(filter.exclude ?? []).flatMap((tag) => ["--exclude", tag]),
+    ...(filter.include ?? []).flatMap((tag) => ["--include", tag]),
+  ];
+}
+
+export function describeTagFilter(filter: TestTagFilter) {
+  return buildTagFilterArgs(filter).join(" ");
+}
+
+export function getSavedTagFilters(): TestTagFilter[] {
+  return vscode.workspace
+    .getConfiguration("elixirLS")
+    .get<TestTagFilter[]>("testTagFilters", [])
+    .filter((filter) => filter.name);
+}
+
+async function saveTagFilter(filter: TestTagFilter) {
+  const configuration = vscode.workspace.getConfiguration("elixirLS");
+  const filters = getSavedTagFilters().filter(
+    (saved) => saved.name !== filter.name,
+  );
+  // saved in the workspace so that the team can share them
+  await configuration.update(
+    "testTagFilters",
+    [...filters, filter],
+    vscode.workspace.workspaceFolders
+      ? vscode.ConfigurationTarget.Workspace
+      : vscode.ConfigurationTarget.Global,
+  );
+}
+
+// Asks for tags to filter by among the discovered ones and optionally saves
+// the filter under a name
+export async function pickTagFilter(
+  tags: string[],
+): Promise<TestTagFilter | undefined> {
+  if (tags.length === 0) {
+    vscode.window.showInformationMessage(
+      "ElixirLS: no test tags were discovered",
+    );
+    return undefined;
+  }
+
+  const items: (TagQuickPickItem | vscode.QuickPickItem)[] = [];
+  for (const mode of ["only", "exclude", "include"] as const) {
+    items.push({
+      label: modeTitles[mode],
+      kind: vscode.QuickPickItemKind.Separator,
+    });
+    for (const tag of tags) {
+      items.push({ label: tag, description: `--${mode}`, tag, mode });
+    }
+  }
+  const selection = (await vscode.window.showQuickPick(items, {
+    placeHolder: "Select tags to filter tests by",
+    canPickMany: true,
+  })) as TagQuickPickItem[] | undefined;
+  if (!selection || selection.length === 0) {
+    return undefined;
+  }
+
+  const filter: TestTagFilter = { name: "" };
+  for (const { tag, mode } of selection) {
+    filter[mode] = [...(filter[mode] ?? []), tag];
+  }
+  filter.name = describeTagFilter(filter);
+
+  const name = await vscode.window.showInputBox({
+    prompt: "Name to save the filter as a run profile, leave empty to run once",
+    placeHolder: "e.g. integration or no external",
+  });
+  if (name === undefined) {
+    return undefined;
+  }
+  if (name.trim()) {
+    filter.name = name.trim();
+    await saveTagFilter(filter);
+  }
+  return filter;
+}
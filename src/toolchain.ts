@@ -0,0 +1,607 @@
+import { exec } from "node:child_process";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import * as vscode from "vscode";
+import type { LanguageClientManager } from "./languageClientManager";
+import {
+  isWorkspaceTrusted,
+  showRestrictedModeMessage,
+} from "./workspaceTrust";
+
+export type ToolchainSource = "path" | "asdf" | "mise" | "kiex" | "nix";
+
+export interface Toolchain {
+  source: ToolchainSource;
+  label: string;
+  elixirVersion?: string;
+  otpVersion?: string;
+  // directories prepended to PATH
+  binDirs: string[];
+  // variables selecting versions in version manager shims
+  env: Record<string, string>;
+}
+
+interface ToolchainVersions {
+  elixirVersion?: string;
+  otpVersion?: string;
+}
+
+const selectedToolchainsKey = "elixirLS.selectedToolchains";
+const probeTimeout = 20 * 1000;
+const nixTimeout = 5 * 60 * 1000;
+
+// variables of nix dev shells describing the build sandbox
+const nixIgnoredVariables = new Set([
+  "HOME",
+  "PWD",
+  "OLDPWD",
+  "SHLVL",
+  "SHELL",
+  "TERM",
+  "TMP",
+  "TMPDIR",
+  "TEMP",
+  "TEMPDIR",
+  "NIX_BUILD_TOP",
+  "NIX_LOG_FD",
+  "builder",
+  "name",
+  "out",
+  "outputs",
+  "system",
+]);
+
+let workspaceState: vscode.Memento | undefined;
+const probedVersions = new Map<string, Promise<ToolchainVersions>>();
+
+const _onDidChangeToolchain = new vscode.EventEmitter<vscode.WorkspaceFolder>();
+export const onDidChangeToolchain = _onDidChangeToolchain.event;
+
+// Nested Mix projects use the toolchain of their workspace folder
+function toolchainKey(workspaceFolder: vscode.WorkspaceFolder): string {
+  return (
+    vscode.workspace.getWorkspaceFolder(workspaceFolder.uri)?.uri ??
+    workspaceFolder.uri
+  ).toString();
+}
+
+function getSelectedToolchains(): Record<string, Toolchain> {
+  return (
+    workspaceState?.get<Record<string, Toolchain>>(selectedToolchainsKey) ?? {}
+  );
+}
+
+export function getSelectedToolchain(
+  workspaceFolder: vscode.WorkspaceFolder | undefined,
+): Toolchain | undefined {
+  if (!workspaceFolder) {
+    return undefined;
+  }
+  return getSelectedToolchains()[toolchainKey(workspaceFolder)];
+}
+
+// Variables applied to the language server, debug adapter, elixir check and
+// Mix tasks. Empty when the folder uses the default toolchain from PATH.
+export function getToolchainEnv(
+  workspaceFolder: vscode.WorkspaceFolder | undefined,
+): Record<string, string> {
+  const toolchain = getSelectedToolchain(workspaceFolder);
+  if (!toolchain) {
+    return {};
+  }
+  if (toolchain.binDirs.length === 0) {
+    return { ...toolchain.env };
+  }
+  return {
+    ...toolchain.env,
+    PATH: [...toolchain.binDirs, process.env.PATH ?? ""].join(path.delimiter),
+  };
+}
+
+function listDirs(dir: string): string[] {
+  try {
+    return fs
+      .readdirSync(dir, { withFileTypes: true })
+      .filter((entry) => entry.isDirectory() || entry.isSymbolicLink())
+      .map((entry) => entry.name);
+  } catch {
+    return [];
+  }
+}
+
+function compareVersionsDesc(a: string, b: string) {
+  return b.localeCompare(a, undefined, { numeric: true });
+}
+
+// Parses asdf/mise `.tool-versions`, only the first listed version of a tool is used
+export function parseToolVersions(contents: string): {
+  elixir?: string;
+  erlang?: string;
+} {
+  const versions: { elixir?: string; erlang?: string } = {};
+  for (const line of contents.split(/\r?\n/)) {
+    const [tool, version] = line.replace(/#.*$/, "").trim().split(/\s+/);
+    if ((tool === "elixir" || tool === "erlang") && version) {
+      versions[tool] ??= version;
+    }
+  }
+  return versions;
+}
+
+// Splits `1.17.3-otp-27` into Elixir and OTP versions
+function parseElixirVersion(version: string): ToolchainVersions {
+  const match = version.match(/^v?(.+?)(?:-otp-(\d+))?$/);
+  return { elixirVersion: match?.[1] ?? version, otpVersion: match?.[2] };
+}
+
+interface VersionManager {
+  source: "asdf" | "mise";
+  installsDir: string;
+}
+
+function versionManagers(): VersionManager[] {
+  const dataHome =
+    process.env.XDG_DATA_HOME ?? path.join(os.homedir(), ".local", "share");
+  return [
+    {
+      source: "asdf" as const,
+      installsDir: path.join(
+        process.env.ASDF_DATA_DIR ?? path.join(os.homedir(), ".asdf"),
+        "installs",
+      ),
+    },
+    {
+      source: "mise" as const,
+      installsDir: path.join(
+        process.env.MISE_DATA_DIR ?? path.join(dataHome, "mise"),
+        "installs",
+      ),
+    },
+  ].filter((manager) => fs.existsSync(manager.installsDir));
+}
+
+function kerlInstallations(): { release: string; binDir: string }[] {
+  const kerlBase =
+    process.env.KERL_BASE_DIR ?? path.join(os.homedir(), ".kerl");
+  try {
+    return fs
+      .readFileSync(path.join(kerlBase, "otp_installations"), "utf8")
+      .split(/\r?\n/)
+      .map((line) => line.trim().split(/\s+/))
+      .filter(([release, dir]) => release && dir)
+      .map(([release, dir]) => ({ release, binDir: path.join(dir, "bin") }));
+  } catch {
+    return [];
+  }
+}
+
+function versionManagerToolchain(
+  manager: VersionManager,
+  label: string,
+  elixir: string,
+  erlang: string | undefined,
+): Toolchain {
+  const prefix = manager.source.toUpperCase();
+  const env: Record<string, string> = {
+    [`${prefix}_ELIXIR_VERSION`]: elixir,
+  };
+  const binDirs = [path.join(manager.installsDir, "elixir", elixir, "bin")];
+  if (erlang) {
+    env[`${prefix}_ERLANG_VERSION`] = erlang;
+    binDirs.push(path.join(manager.installsDir, "erlang", erlang, "bin"));
+  }
+  const { elixirVersion, otpVersion } = parseElixirVersion(elixir);
+  return {
+    source: manager.source,
+    label,
+    elixirVersion,
+    otpVersion: erlang ?? otpVersion,
+    binDirs: binDirs.filter((dir) => fs.existsSync(dir)),
+    env,
+  };
+}
+
+// Erlang install matching the OTP release an Elixir build was compiled for
+function matchingErlang(erlangs: string[], elixir: string) {
+  const { otpVersion } = parseElixirVersion(elixir);
+  return erlangs.find(
+    (erlang) =>
+      !otpVersion ||
+      erlang === otpVersion ||
+      erlang.startsWith(`${otpVersion}.`),
+  );
+}
+
+export function detectToolchains(
+  workspaceFolder: vscode.WorkspaceFolder,
+): Toolchain[] {
+  const toolchains: Toolchain[] = [];
+  const folderPath = workspaceFolder.uri.fsPath;
+  const managers = versionManagers();
+
+  let toolVersions: { elixir?: string; erlang?: string } = {};
+  try {
+    toolVersions = parseToolVersions(
+      fs.readFileSync(path.join(folderPath, ".tool-versions"), "utf8"),
+    );
+  } catch {
+    // no .tool-versions in folder
+  }
+
+  for (const manager of managers) {
+    const elixirs = listDirs(path.join(manager.installsDir, "elixir")).sort(
+      compareVersionsDesc,
+    );
+    const erlangs = listDirs(path.join(manager.installsDir, "erlang")).sort(
+      compareVersionsDesc,
+    );
+
+    if (toolVersions.elixir && elixirs.includes(toolVersions.elixir)) {
+      toolchains.push(
+        versionManagerToolchain(
+          manager,
+          `.tool-versions (${manager.source})`,
+          toolVersions.elixir,
+          toolVersions.erlang && erlangs.includes(toolVersions.erlang)
+            ? toolVersions.erlang
+            : undefined,
+        ),
+      );
+    }
+
+    for (const elixir of elixirs) {
+      toolchains.push(
+        versionManagerToolchain(
+          manager,
+          `${manager.source} elixir ${elixir}`,
+          elixir,
+          matchingErlang(erlangs, elixir),
+        ),
+      );
+    }
+  }
+
+  const kerl = kerlInstallations().sort((a, b) =>
+    compareVersionsDesc(a.release, b.release),
+  );
+  const kiexElixirs = path.join(
+    process.env.KIEX_HOME ?? path.join(os.homedir(), ".kiex"),
+    "elixirs",
+  );
+  for (const dir of listDirs(kiexElixirs).sort(compareVersionsDesc)) {
+    const elixir = dir.replace(/^elixir-/, "");
+    const erlangRelease = matchingErlang(
+      kerl.map(({ release }) => release),
+      elixir,
+    );
+    const erlang = kerl.find(({ release }) => release === erlangRelease);
+    const { elixirVersion, otpVersion } = parseElixirVersion(elixir);
+    toolchains.push({
+      source: "kiex",
+      label: erlang
+        ? `kiex elixir ${elixir}, kerl OTP ${erlang.release}`
+        : `kiex elixir ${elixir}`,
+      elixirVersion,
+      otpVersion: erlang?.release ?? otpVersion,
+      binDirs: [
+        path.join(kiexElixirs, dir, "bin"),
+        ...(erlang ? [erlang.binDir] : []),
+      ],
+      env: {},
+    });
+  }
+
+  for (const file of ["flake.nix", "shell.nix"]) {
+    if (fs.existsSync(path.join(folderPath, file))) {
+      // resolved with `nix print-dev-env` when selected
+      toolchains.push({
+        source: "nix",
+        label: `Nix dev shell (${file})`,
+        binDirs: [],
+        env: {},
+      });
+    }
+  }
+
+  return toolchains;
+}
+
+function execAsync(
+  command: string,
+  options: { cwd?: string; env?: NodeJS.ProcessEnv; timeout: number },
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    exec(
+      command,
+      { ...options, maxBuffer: 32 * 1024 * 1024 },
+      (error, stdout, stderr) => {
+        if (error) {
+          reject(new Error(stderr.trim() || error.message));
+        } else {
+          resolve(stdout);
+        }
+      },
+    );
+  });
+}
+
+// Exported variables of `nix print-dev-env --json` output, PATH entries are
+// kept as toolchain bin dirs
+export function parseNixDevEnv(
+  output: string,
+): Pick<Toolchain, "binDirs" | "env"> {
+  const { variables } = JSON.parse(output) as {
+    variables: Record<string, { type: string; value: unknown }>;
+  };
+
+  const env: Record<string, string> = {};
+  let binDirs: string[] = [];
+  for (const [name, variable] of Object.entries(variables)) {
+    if (variable.type !== "exported" || nixIgnoredVariables.has(name)) {
+      continue;
+    }
+    if (name === "PATH") {
+      binDirs = String(variable.value).split(path.delimiter).filter(Boolean);
+    } else {
+      env[name] = String(variable.value);
+    }
+  }
+  return { binDirs, env };
+}
+
+async function resolveNixToolchain(
+  toolchain: Toolchain,
+  workspaceFolder: vscode.WorkspaceFolder,
+): Promise<Toolchain> {
+  const folderPath = workspaceFolder.uri.fsPath;
+  const command = toolchain.label.includes("flake.nix")
+    ? `nix print-dev-env --json "${folderPath}"`
+    : `nix print-dev-env --json --file "${path.join(folderPath, "shell.nix")}"`;
+  const output = await execAsync(command, {
+    cwd: folderPath,
+    timeout: nixTimeout,
+  });
+  return { ...toolchain, ...parseNixDevEnv(output) };
+}
+
+function toolchainProcessEnv(toolchain: Toolchain | undefined) {
+  const env: NodeJS.ProcessEnv = { ...process.env, ...toolchain?.env };
+  if (toolchain && toolchain.binDirs.length > 0) {
+    env.PATH = [...toolchain.binDirs, process.env.PATH ?? ""].join(
+      path.delimiter,
+    );
+  }
+  return env;
+}
+
+// Asks elixir for its version and the OTP release it runs on
+async function probeVersions(
+  toolchain: Toolchain | undefined,
+  workspaceFolder: vscode.WorkspaceFolder,
+): Promise<ToolchainVersions> {
+  try {
+    const output = await execAsync(
+      `elixir -e "IO.write([System.version(), ' ', :erlang.system_info(:otp_release)])"`,
+      {
+        cwd: workspaceFolder.uri.fsPath,
+        env: toolchainProcessEnv(toolchain),
+        timeout: probeTimeout,
+      },
+    );
+    const [elixirVersion, otpVersion] = output.trim().split(" ");
+    return { elixirVersion, otpVersion };
+  } catch (e) {
+    console.warn(
+      `ElixirLS: unable to determine Elixir version for ${workspaceFolder.name}: ${e}`,
+    );
+    return {};
+  }
+}
+
+// Versions of the selected toolchain, probed from PATH when none is selected
+export function getToolchainVersions(
+  workspaceFolder: vscode.WorkspaceFolder,
+): Promise<ToolchainVersions> {
+  const toolchain = getSelectedToolchain(workspaceFolder);
+  if (toolchain?.elixirVersion && toolchain.otpVersion) {
+    return Promise.resolve(toolchain);
+  }
+  const key = toolchainKey(workspaceFolder);
+  let versions = probedVersions.get(key);
+  if (!versions) {
+    versions = probeVersions(toolchain, workspaceFolder);
+    probedVersions.set(key, versions);
+  }
+  return versions;
+}
+
+export async function setSelectedToolchain(
+  workspaceFolder: vscode.WorkspaceFolder,
+  toolchain: Toolchain | undefined,
+) {
+  const key = toolchainKey(workspaceFolder);
+  const selected = { ...getSelectedToolchains() };
+  if (toolchain) {
+    selected[key] = toolchain;
+  } else {
+    delete selected[key];
+  }
+  await workspaceState?.update(selectedToolchainsKey, selected);
+  probedVersions.delete(key);
+  _onDidChangeToolchain.fire(workspaceFolder);
+}
+
+function formatVersions(versions: ToolchainVersions): string {
+  if (!versions.elixirVersion) {
+    return "";
+  }
+  return versions.otpVersion
+    ? `Elixir ${versions.elixirVersion} · OTP ${versions.otpVersion}`
+    : `Elixir ${versions.elixirVersion}`;
+}
+
+async function selectToolchain(
+  context: vscode.ExtensionContext,
+  languageClientManager: LanguageClientManager,
+  workspaceFolder?: vscode.WorkspaceFolder,
+) {
+  if (!isWorkspaceTrusted()) {
+    void showRestrictedModeMessage("Toolchain selection");
+    return;
+  }
+
+  let folder = workspaceFolder;
+  if (!folder) {
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    folder =
+      folders.length > 1
+        ? await vscode.window.showWorkspaceFolderPick({
+            placeHolder: "Select workspace folder",
+          })
+        : folders[0];
+  }
+  if (!folder) {
+    return;
+  }
+
+  const current = getSelectedToolchain(folder);
+  type ToolchainQuickPickItem = vscode.QuickPickItem & {
+    toolchain: Toolchain | undefined;
+  };
+  const items: ToolchainQuickPickItem[] = [
+    {
+      label: "PATH",
+      description: current ? undefined : "current",
+      detail:
+        "Use elixir found in PATH, version managers activated by the launch script apply",
+      toolchain: undefined,
+    },
+    ...detectToolchains(folder).map((toolchain) => ({
+      label: toolchain.label,
+      description: [
+        formatVersions(toolchain),
+        current?.label === toolchain.label ? "current" : "",
+      ]
+        .filter(Boolean)
+        .join(" · "),
+      detail:
+        toolchain.source === "nix"
+          ? "Environment resolved with nix print-dev-env"
+          : toolchain.binDirs.join(path.delimiter),
+      toolchain,
+    })),
+  ];
+
+  const picked = await vscode.window.showQuickPick(items, {
+    placeHolder: `Select Elixir toolchain for ${folder.name}`,
+    matchOnDetail: true,
+  });
+  if (!picked) {
+    return;
+  }
+
+  let toolchain = picked.toolchain;
+  if (toolchain?.source === "nix") {
+    const nixToolchain = toolchain;
+    const pickedFolder = folder;
+    try {
+      toolchain = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: `ElixirLS: resolving ${nixToolchain.label}`,
+        },
+        () => resolveNixToolchain(nixToolchain, pickedFolder),
+      );
+    } catch (e) {
+      console.error(`ElixirLS: unable to resolve ${nixToolchain.label}: ${e}`);
+      vscode.window.showErrorMessage(
+        `Unable to resolve ${nixToolchain.label}: ${e instanceof Error ? e.message : e}`,
+      );
+      return;
+    }
+    toolchain = { ...toolchain, ...(await probeVersions(toolchain, folder)) };
+  }
+
+  console.log(
+    `ElixirLS: selected toolchain ${toolchain?.label ?? "PATH"} for ${folder.name}`,
+  );
+  await setSelectedToolchain(folder, toolchain);
+  await languageClientManager.handleDidChangeEnvironment(
+    folder,
+    "toolchain changed",
+    context,
+  );
+}
+
+function activeWorkspaceFolder(): vscode.WorkspaceFolder | undefined {
+  const uri = vscode.window.activeTextEditor?.document.uri;
+  return (
+    (uri && vscode.workspace.getWorkspaceFolder(uri)) ||
+    vscode.workspace.workspaceFolders?.[0]
+  );
+}
+
+export function configureToolchain(
+  context: vscode.ExtensionContext,
+  languageClientManager: LanguageClientManager,
+) {
+  workspaceState = context.workspaceState;
+
+  const statusBarItem = vscode.window.createStatusBarItem(
+    "elixirLS.toolchain",
+    vscode.StatusBarAlignment.Left,
+  );
+  statusBarItem.name = "Elixir Toolchain";
+  context.subscriptions.push(statusBarItem, _onDidChangeToolchain);
+
+  let updateId = 0;
+  const updateStatusBar = async () => {
+    const folder = activeWorkspaceFolder();
+    if (!folder || !isWorkspaceTrusted()) {
+      statusBarItem.hide();
+      return;
+    }
+
+    const id = ++updateId;
+    const toolchain = getSelectedToolchain(folder);
+    statusBarItem.command = {
+      title: "Select Elixir toolchain",
+      command: "extension.selectToolchain",
+      arguments: [folder],
+    };
+    statusBarItem.text = "$(loading~spin) Elixir";
+    statusBarItem.show();
+
+    const versions = await getToolchainVersions(folder);
+    if (id !== updateId) {
+      return;
+    }
+    const source = toolchain?.label ?? "PATH";
+    if (versions.elixirVersion) {
+      statusBarItem.text = `$(tools) ${formatVersions(versions)}`;
+      statusBarItem.tooltip = `Elixir toolchain of ${folder.name}: ${source}. Click to select a different toolchain`;
+      statusBarItem.backgroundColor = undefined;
+    } else {
+      statusBarItem.text = "$(warning) Elixir not found";
+      statusBarItem.tooltip = `Unable to run elixir from ${source} in ${folder.name}. Click to select a toolchain`;
+      statusBarItem.backgroundColor = new vscode.ThemeColor(
+        "statusBarItem.warningBackground",
+      );
+    }
+  };
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "extension.selectToolchain",
+      (folder?: vscode.WorkspaceFolder) =>
+        selectToolchain(context, languageClientManager, folder),
+    ),
+    vscode.window.onDidChangeActiveTextEditor(updateStatusBar),
+    vscode.workspace.onDidChangeWorkspaceFolders(updateStatusBar),
+    vscode.workspace.onDidGrantWorkspaceTrust(updateStatusBar),
+    onDidChangeToolchain(updateStatusBar),
+  );
+
+  void updateStatusBar();
+}
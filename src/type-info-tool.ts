@@ -1,5 +1,6 @@
 import * as vscode from "vscode";
 import type { LanguageClient } from "vscode-languageclient/node";
+import { executeServerCommand } from "./serverCommands";
 
 interface IParameters {
   module: string;
@@ -65,26 +66,11 @@ export class TypeInfoTool implements vscode.LanguageModelTool<IParameters> {
     }
 
     try {
-      // Find the llmTypeInfo command from server capabilities
-      const command =
-        this.client.initializeResult?.capabilities.executeCommandProvider?.commands.find(
-          (c) => c.startsWith("llmTypeInfo:"),
-        );
-
-      if (!command) {
-        return new vscode.LanguageModelToolResult([
-          new vscode.LanguageModelTextPart(
-            "Error: llmTypeInfo command not found in server capabilities",
-          ),
-        ]);
-      }
-
-      const result = await this.client.sendRequest<ITypeInfoResult>(
-        "workspace/executeCommand",
-        {
-          command: command,
-          arguments: [args.module],
-        },
+      const result = await executeServerCommand<ITypeInfoResult>(
+        this.client,
+        "llmTypeInfo",
+        [args.module],
+        { token },
       );
 
       if (result.error) {
@@ -0,0 +1,143 @@
+import * as vscode from "vscode";
+import {
+  type ApplyWorkspaceEditParams,
+  ApplyWorkspaceEditRequest,
+  type ApplyWorkspaceEditResult,
+  type LanguageClient,
+  TextDocumentEdit,
+  type WorkspaceEdit,
+} from "vscode-languageclient/node";
+import { lspTrafficRecorder } from "./lspTrafficInspector";
+
+interface Capture {
+  // the only document edits are captured for
+  uri: string;
+  edits: vscode.WorkspaceEdit[];
+}
+
+// Edits of a document requested by a server command while it is in flight are
+// collected instead of applied, e.g. to show them in the refactor preview
+const captures = new Map<LanguageClient, Capture>();
+
+// Edits are converted one after the other, a later edit must not be applied
+// before an earlier one that takes longer to convert
+const conversions = new Map<LanguageClient, Promise<unknown>>();
+
+function convertWorkspaceEdit(
+  client: LanguageClient,
+  edit: WorkspaceEdit,
+): Promise<vscode.WorkspaceEdit> {
+  const conversion = (conversions.get(client) ?? Promise.resolve())
+    .catch(() => undefined)
+    .then(() => client.protocol2CodeConverter.asWorkspaceEdit(edit));
+  conversions.set(client, conversion);
+  return conversion;
+}
+
+// Only text edits of the captured document are captured, file operations and
+// edits of other documents are applied
+function isCapturedEdit(
+  client: LanguageClient,
+  edit: WorkspaceEdit,
+  capture: Capture,
+) {
+  const uris = [
+    ...Object.keys(edit.changes ?? {}),
+    ...(edit.documentChanges ?? []).map((change) =>
+      TextDocumentEdit.is(change) ? change.textDocument.uri : undefined,
+    ),
+  ];
+  return (
+    uris.length > 0 &&
+    uris.every(
+      (uri) =>
+        uri !== undefined &&
+        client.protocol2CodeConverter.asUri(uri).toString() === capture.uri,
+    )
+  );
+}
+
+// Same as the default handler of the client, edits computed against another
+// version of an open document are rejected
+function hasVersionMismatch(client: LanguageClient, edit: WorkspaceEdit) {
+  const openDocuments = new Map(
+    vscode.workspace.textDocuments.map((document) => [
+      document.uri.toString(),
+      document,
+    ]),
+  );
+  return (edit.documentChanges ?? []).some((change) => {
+    if (
+      !TextDocumentEdit.is(change) ||
+      change.textDocument.version === null ||
+      change.textDocument.version < 0
+    ) {
+      return false;
+    }
+    const document = openDocuments.get(
+      client.protocol2CodeConverter.asUri(change.textDocument.uri).toString(),
+    );
+    return (
+      document !== undefined && document.version !== change.textDocument.version
+    );
+  });
+}
+
+async function handleApplyWorkspaceEdit(
+  client: LanguageClient,
+  params: ApplyWorkspaceEditParams,
+): Promise<ApplyWorkspaceEditResult> {
+  const edit = await convertWorkspaceEdit(client, params.edit);
+  if (hasVersionMismatch(client, params.edit)) {
+    return { applied: false };
+  }
+  const capture = captures.get(client);
+  if (capture && isCapturedEdit(client, params.edit, capture)) {
+    capture.edits.push(edit);
+    return { applied: true };
+  }
+  return { applied: await vscode.workspace.applyEdit(edit) };
+}
+
+// Replaces the default workspace/applyEdit handler of the client
+export function registerApplyWorkspaceEditHandler(
+  client: LanguageClient,
+): vscode.Disposable {
+  const disposable = client.onRequest(
+    ApplyWorkspaceEditRequest.type,
+    (params) =>
+      lspTrafficRecorder.handleServerRequest(
+        client,
+        ApplyWorkspaceEditRequest.method,
+        params,
+        () => handleApplyWorkspaceEdit(client, params),
+      ),
+  );
+  return {
+    dispose: () => {
+      disposable.dispose();
+      conversions.delete(client);
+    },
+  };
+}
+
+// Runs a single server command and returns edits of the document the server
+// asked to apply while the command was in flight. The server is told the edits
+// were applied.
+export async function captureWorkspaceEdits(
+  client: LanguageClient,
+  uri: vscode.Uri,
+  command: () => Promise<unknown>,
+): Promise<vscode.WorkspaceEdit[]> {
+  if (captures.has(client)) {
+    throw new Error("workspace edits of the client are already captured");
+  }
+  const capture: Capture = { uri: uri.toString(), edits: [] };
+  captures.set(client, capture);
+  try {
+    await command();
+  } finally {
+    captures.delete(client);
+  }
+  return capture.edits;
+}
@@ -0,0 +1,19 @@
+import * as vscode from "vscode";
+
+// The language server, debugger, Mix tasks and elixir check all compile or run
+// project code. In untrusted workspaces only the declarative contributions
+// (grammars, snippets, language configuration) are active.
+export function isWorkspaceTrusted(): boolean {
+  return vscode.workspace.isTrusted;
+}
+
+export async function showRestrictedModeMessage(feature: string) {
+  console.warn(`ElixirLS: ${feature} is disabled in Restricted Mode`);
+  const selection = await vscode.window.showWarningMessage(
+    `ElixirLS: ${feature} is disabled in Restricted Mode because it runs project code. Trust the workspace to enable it.`,
+    "Manage Workspace Trust",
+  );
+  if (selection === "Manage Workspace Trust") {
+    await vscode.commands.executeCommand("workbench.trust.manage");
+  }
+}